@@ -0,0 +1,85 @@
+import type { DateKey, DayKey, HourKey, MinuteKey, MonthKey, QuarterKey, WeekKey, WeekOptions, YearKey } from './types';
+import { getDateKeyType } from './converters';
+import { dateKeyToOrdinal, ordinalToDateKey } from './ordinals';
+
+/**
+ * Adds a number of periods to a date key, preserving its resolution.
+ * 
+ * The amount is measured in the key's own resolution: hours for hour keys, days for
+ * day keys, weeks for week keys, and so on. Week keys cross week years the same way `dateToWeekKey` does.
+ * Hour and minute keys count wall-clock periods, so every day has 24 hours regardless of daylight saving.
+ * 
+ * @param dateKey - The date key to add to
+ * @param amount - The number of periods to add (may be negative)
+ * @param options - Optional week numbering options, used for week keys
+ * @returns A date key of the same type
+ * 
+ * @example
+ * addToDateKey('2024-01-15T23', 2);  // "2024-01-16T01"
+ * addToDateKey('2024-01-31', 1);  // "2024-02-01"
+ * addToDateKey('2024-W52', 1);    // "2025-W01"
+ * addToDateKey('2024-01', 2);     // "2024-03"
+ * addToDateKey('2024-Q4', 1);     // "2025-Q1"
+ * addToDateKey('2024', -3);       // "2021"
+ */
+export function addToDateKey(dateKey: MinuteKey, amount: number, options?: WeekOptions): MinuteKey;
+export function addToDateKey(dateKey: HourKey, amount: number, options?: WeekOptions): HourKey;
+export function addToDateKey(dateKey: DayKey, amount: number, options?: WeekOptions): DayKey;
+export function addToDateKey(dateKey: WeekKey, amount: number, options?: WeekOptions): WeekKey;
+export function addToDateKey(dateKey: MonthKey, amount: number, options?: WeekOptions): MonthKey;
+export function addToDateKey(dateKey: QuarterKey, amount: number, options?: WeekOptions): QuarterKey;
+export function addToDateKey(dateKey: YearKey, amount: number, options?: WeekOptions): YearKey;
+export function addToDateKey(dateKey: DateKey, amount: number, options?: WeekOptions): DateKey;
+export function addToDateKey(dateKey: DateKey, amount: number, options?: WeekOptions): DateKey {
+  return ordinalToDateKey(dateKeyToOrdinal(dateKey, options) + amount, getDateKeyType(dateKey), options);
+}
+
+/**
+ * Subtracts a number of periods from a date key, preserving its resolution.
+ * 
+ * @param dateKey - The date key to subtract from
+ * @param amount - The number of periods to subtract (may be negative)
+ * @param options - Optional week numbering options, used for week keys
+ * @returns A date key of the same type
+ * 
+ * @example
+ * subtractFromDateKey('2024-03-01', 1);  // "2024-02-29"
+ * subtractFromDateKey('2024-W01', 1);    // "2023-W52"
+ * subtractFromDateKey('2024-01', 1);     // "2023-12"
+ */
+export function subtractFromDateKey(dateKey: MinuteKey, amount: number, options?: WeekOptions): MinuteKey;
+export function subtractFromDateKey(dateKey: HourKey, amount: number, options?: WeekOptions): HourKey;
+export function subtractFromDateKey(dateKey: DayKey, amount: number, options?: WeekOptions): DayKey;
+export function subtractFromDateKey(dateKey: WeekKey, amount: number, options?: WeekOptions): WeekKey;
+export function subtractFromDateKey(dateKey: MonthKey, amount: number, options?: WeekOptions): MonthKey;
+export function subtractFromDateKey(dateKey: QuarterKey, amount: number, options?: WeekOptions): QuarterKey;
+export function subtractFromDateKey(dateKey: YearKey, amount: number, options?: WeekOptions): YearKey;
+export function subtractFromDateKey(dateKey: DateKey, amount: number, options?: WeekOptions): DateKey;
+export function subtractFromDateKey(dateKey: DateKey, amount: number, options?: WeekOptions): DateKey {
+  return addToDateKey(dateKey, -amount, options);
+}
+
+/**
+ * Counts the number of periods between two date keys of the same resolution.
+ * 
+ * The result is positive when `end` is after `start`, and negative when it is before.
+ * 
+ * @param start - The date key to count from
+ * @param end - The date key to count to
+ * @param options - Optional week numbering options, used for week keys
+ * @returns The number of minutes, hours, days, weeks, months, quarters, or years from `start` to `end`
+ * @throws If the date keys are of different types
+ * 
+ * @example
+ * diffDateKeys('2024-01-15T22', '2024-01-16T01');  // 3
+ * diffDateKeys('2024-01-15', '2024-02-15');  // 31
+ * diffDateKeys('2023-W50', '2024-W02');      // 4
+ * diffDateKeys('2024-03', '2024-01');        // -2
+ */
+export function diffDateKeys(start: DateKey, end: DateKey, options?: WeekOptions): number {
+  const type = getDateKeyType(start);
+  if (getDateKeyType(end) !== type) {
+    throw new Error(`Cannot diff date keys of different types: ${start}, ${end}`);
+  }
+  return dateKeyToOrdinal(end, options) - dateKeyToOrdinal(start, options);
+}
@@ -1,6 +1,55 @@
-import type { DayKey, MonthKey, WeekKey, YearKey } from './types';
+import type {
+  DayKey,
+  FiscalQuarterKey,
+  FiscalYearKey,
+  HourKey,
+  MinuteKey,
+  MonthKey,
+  QuarterKey,
+  RetailPeriodKey,
+  RetailQuarterKey,
+  RetailYearKey,
+  WeekKey,
+  YearKey,
+} from './types';
 
 const pad = (n: number) => String(n).padStart(2, '0') as `${number}`;
+const padYear = (year: number) => String(year).padStart(4, '0') as `${number}`;
+
+/**
+ * Creates a MinuteKey from year, month, day, hour, and minute components.
+ *
+ * @param year - The year (e.g., 2024)
+ * @param month - The month (1-12)
+ * @param day - The day of the month (1-31)
+ * @param hour - The hour of the day (0-23)
+ * @param minute - The minute of the hour (0-59)
+ * @returns A MinuteKey in format "YYYY-MM-DDTHH:mm"
+ *
+ * @example
+ * toMinuteKey(2024, 1, 15, 13, 45);  // "2024-01-15T13:45"
+ * toMinuteKey(2024, 1, 15, 9, 5);    // "2024-01-15T09:05"
+ */
+export function toMinuteKey(year: number, month: number, day: number, hour: number, minute: number): MinuteKey {
+  return `${toHourKey(year, month, day, hour)}:${pad(minute)}`;
+}
+
+/**
+ * Creates an HourKey from year, month, day, and hour components.
+ *
+ * @param year - The year (e.g., 2024)
+ * @param month - The month (1-12)
+ * @param day - The day of the month (1-31)
+ * @param hour - The hour of the day (0-23)
+ * @returns An HourKey in format "YYYY-MM-DDTHH"
+ *
+ * @example
+ * toHourKey(2024, 1, 15, 13);  // "2024-01-15T13"
+ * toHourKey(2024, 1, 15, 9);   // "2024-01-15T09"
+ */
+export function toHourKey(year: number, month: number, day: number, hour: number): HourKey {
+  return `${toDayKey(year, month, day)}T${pad(hour)}`;
+}
 
 /**
  * Creates a DayKey from year, month, and day components.
@@ -15,7 +64,7 @@ const pad = (n: number) => String(n).padStart(2, '0') as `${number}`;
  * toDayKey(2024, 12, 5);  // "2024-12-05"
  */
 export function toDayKey(year: number, month: number, day: number): DayKey {
-  return `${year}-${pad(month)}-${pad(day)}`;
+  return `${padYear(year)}-${pad(month)}-${pad(day)}`;
 }
 
 /**
@@ -30,7 +79,7 @@ export function toDayKey(year: number, month: number, day: number): DayKey {
  * toWeekKey(2024, 52);  // "2024-W52"
  */
 export function toWeekKey(year: number, week: number): WeekKey {
-  return `${year}-W${pad(week)}`;
+  return `${padYear(year)}-W${pad(week)}`;
 }
 
 /**
@@ -45,7 +94,22 @@ export function toWeekKey(year: number, week: number): WeekKey {
  * toMonthKey(2024, 12);  // "2024-12"
  */
 export function toMonthKey(year: number, month: number): MonthKey {
-  return `${year}-${pad(month)}`;
+  return `${padYear(year)}-${pad(month)}`;
+}
+
+/**
+ * Creates a QuarterKey from year and quarter components.
+ *
+ * @param year - The year (e.g., 2024)
+ * @param quarter - The quarter (1-4)
+ * @returns A QuarterKey in format "YYYY-Qq"
+ *
+ * @example
+ * toQuarterKey(2024, 1);  // "2024-Q1"
+ * toQuarterKey(2024, 4);  // "2024-Q4"
+ */
+export function toQuarterKey(year: number, quarter: number): QuarterKey {
+  return `${padYear(year)}-Q${quarter}`;
 }
 
 /**
@@ -56,7 +120,76 @@ export function toMonthKey(year: number, month: number): MonthKey {
  *
  * @example
  * toYearKey(2024);  // "2024"
+ * toYearKey(999);   // "0999"
  */
 export function toYearKey(year: number): YearKey {
-  return `${year}`;
+  return padYear(year);
+}
+
+/**
+ * Creates a FiscalQuarterKey from fiscal year and quarter components.
+ *
+ * @param fiscalYear - The fiscal year, as named by the fiscal calendar (e.g., 2025)
+ * @param quarter - The fiscal quarter (1-4)
+ * @returns A FiscalQuarterKey in format "FYYYYY-Qq" (e.g., "FY2025-Q1")
+ *
+ * @example
+ * toFiscalQuarterKey(2025, 1);  // "FY2025-Q1"
+ */
+export function toFiscalQuarterKey(fiscalYear: number, quarter: number): FiscalQuarterKey {
+  return `FY${padYear(fiscalYear)}-Q${quarter}`;
+}
+
+/**
+ * Creates a FiscalYearKey from a fiscal year component.
+ *
+ * @param fiscalYear - The fiscal year, as named by the fiscal calendar (e.g., 2025)
+ * @returns A FiscalYearKey in format "FYYYYY" (e.g., "FY2025")
+ *
+ * @example
+ * toFiscalYearKey(2025);  // "FY2025"
+ */
+export function toFiscalYearKey(fiscalYear: number): FiscalYearKey {
+  return `FY${padYear(fiscalYear)}`;
+}
+
+/**
+ * Creates a RetailPeriodKey from retail year and period components.
+ *
+ * @param retailYear - The retail year, named after the calendar year it starts in (e.g., 2024)
+ * @param period - The retail period (1-12)
+ * @returns A RetailPeriodKey in format "RYYYY-Ppp" (e.g., "R2024-P03")
+ *
+ * @example
+ * toRetailPeriodKey(2024, 3);  // "R2024-P03"
+ */
+export function toRetailPeriodKey(retailYear: number, period: number): RetailPeriodKey {
+  return `R${padYear(retailYear)}-P${pad(period)}`;
+}
+
+/**
+ * Creates a RetailQuarterKey from retail year and quarter components.
+ *
+ * @param retailYear - The retail year, named after the calendar year it starts in (e.g., 2024)
+ * @param quarter - The retail quarter (1-4)
+ * @returns A RetailQuarterKey in format "RYYYY-Qq" (e.g., "R2024-Q1")
+ *
+ * @example
+ * toRetailQuarterKey(2024, 1);  // "R2024-Q1"
+ */
+export function toRetailQuarterKey(retailYear: number, quarter: number): RetailQuarterKey {
+  return `R${padYear(retailYear)}-Q${quarter}`;
+}
+
+/**
+ * Creates a RetailYearKey from a retail year component.
+ *
+ * @param retailYear - The retail year, named after the calendar year it starts in (e.g., 2024)
+ * @returns A RetailYearKey in format "RYYYY" (e.g., "R2024")
+ *
+ * @example
+ * toRetailYearKey(2024);  // "R2024"
+ */
+export function toRetailYearKey(retailYear: number): RetailYearKey {
+  return `R${padYear(retailYear)}`;
 }
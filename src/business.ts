@@ -0,0 +1,183 @@
+import type { BusinessCalendarOptions, DateKey, DateKeyRange, DayKey, HourKey, MinuteKey } from './types';
+import { isDayKey, isHourKey, isMinuteKey } from './guards';
+import { convertDateKey } from './converters';
+import { dateKeyToOrdinal, ordinalToDateKey } from './ordinals';
+import { getWeekday } from './calendar';
+import { getDayBounds } from './periods';
+
+// Observed holidays are resolved a block of days at a time, looking far enough around the
+// block to see every holiday that can move into it
+const BLOCK_DAYS = 64;
+const LOOKBEHIND_DAYS = 14;
+const LOOKAHEAD_DAYS = 7;
+// A calendar without a working day in a whole year is almost certainly misconfigured
+const MAX_SEARCH_DAYS = 366;
+
+/**
+ * Creates a test for whether a day (as days since 1970-01-01) is a working day.
+ */
+function createBusinessDayTest(options: BusinessCalendarOptions = {}): (day: number) => boolean {
+  const { holidays = [], observedHolidays = 'none' } = options;
+  const weekendDays = new Set<number>(options.weekendDays ?? [0, 6]);
+  if (weekendDays.size >= 7) {
+    throw new Error('A business calendar needs at least one working day of the week');
+  }
+
+  const holidaySet = typeof holidays === 'function' ? undefined : new Set<string>(holidays);
+  const isHoliday = (day: number) => {
+    const dayKey = ordinalToDateKey(day, 'day');
+    return holidaySet ? holidaySet.has(dayKey) : (holidays as (dayKey: DayKey) => boolean)(dayKey);
+  };
+  const isWeekend = (day: number) => weekendDays.has(getWeekday(day));
+
+  const blocks = new Map<number, Set<number>>();
+  const getObservedHolidays = (block: number): Set<number> => {
+    let observed = blocks.get(block);
+    if (observed) return observed;
+
+    observed = new Set();
+    const start = block * BLOCK_DAYS;
+    const weekendHolidays: number[] = [];
+    for (let day = start - LOOKBEHIND_DAYS; day < start + BLOCK_DAYS + LOOKAHEAD_DAYS; day++) {
+      if (!isHoliday(day)) continue;
+      observed.add(day);
+      if (isWeekend(day)) weekendHolidays.push(day);
+    }
+
+    for (const holiday of observedHolidays === 'none' ? [] : weekendHolidays) {
+      if (observedHolidays === 'nearest') {
+        // Ties go to the later day, as a Sunday holiday is observed on Monday
+        for (let distance = 1; distance < 7; distance++) {
+          if (!isWeekend(holiday + distance)) {
+            observed.add(holiday + distance);
+            break;
+          }
+          if (!isWeekend(holiday - distance)) {
+            observed.add(holiday - distance);
+            break;
+          }
+        }
+      } else {
+        let day = holiday + 1;
+        while (isWeekend(day) || observed.has(day)) day++;
+        observed.add(day);
+      }
+    }
+
+    blocks.set(block, observed);
+    return observed;
+  };
+
+  return (day) => !isWeekend(day) && !getObservedHolidays(Math.floor(day / BLOCK_DAYS)).has(day);
+}
+
+/**
+ * Finds the first working day from a day onwards, moving in a direction.
+ */
+function findBusinessDay(start: number, step: 1 | -1, isWorkingDay: (day: number) => boolean): number {
+  for (let day = start; Math.abs(day - start) < MAX_SEARCH_DAYS; day += step) {
+    if (isWorkingDay(day)) return day;
+  }
+  throw new Error(`No business day found within ${MAX_SEARCH_DAYS} days of ${ordinalToDateKey(start, 'day')}`);
+}
+
+function assertDayResolution(dateKey: DateKey): void {
+  if (!isDayKey(dateKey) && !isHourKey(dateKey) && !isMinuteKey(dateKey)) {
+    throw new Error(`Business days can only be checked for day, hour, or minute keys: ${dateKey}`);
+  }
+}
+
+/**
+ * Checks if a day is a working day: not a weekend day, and not a holiday or observed holiday.
+ *
+ * Hour and minute keys are checked by the day they fall on.
+ *
+ * @param dateKey - The day, hour, or minute key to check
+ * @param options - Optional weekend days, holidays, and observed holiday rule
+ * @returns True if the day is a working day
+ * @throws If the key is coarser than a day
+ *
+ * @example
+ * isBusinessDay('2024-01-15');  // true (Monday)
+ * isBusinessDay('2024-01-13');  // false (Saturday)
+ * isBusinessDay('2024-12-25', { holidays: ['2024-12-25'] });  // false
+ * isBusinessDay('2026-07-03', { holidays: ['2026-07-04'], observedHolidays: 'nearest' });  // false (observed on Friday)
+ */
+export function isBusinessDay(dateKey: DayKey | HourKey | MinuteKey, options?: BusinessCalendarOptions): boolean {
+  assertDayResolution(dateKey);
+  return createBusinessDayTest(options)(dateKeyToOrdinal(convertDateKey(dateKey, 'day')));
+}
+
+/**
+ * Adds a number of working days to a day, skipping weekends and holidays.
+ *
+ * Hour and minute keys keep their time of day. Starting from a non-working day, adding 1
+ * moves to the next working day.
+ *
+ * @param dateKey - The day, hour, or minute key to add to
+ * @param amount - The number of working days to add (may be negative)
+ * @param options - Optional weekend days, holidays, and observed holiday rule
+ * @returns A key of the same type on the resulting working day
+ * @throws If the key is coarser than a day
+ *
+ * @example
+ * addBusinessDays('2024-01-12', 1);  // "2024-01-15" (Friday to Monday)
+ * addBusinessDays('2024-01-15', 5);  // "2024-01-22"
+ * addBusinessDays('2024-01-15T09:30', -1);  // "2024-01-12T09:30"
+ * addBusinessDays('2024-12-24', 1, { holidays: ['2024-12-25', '2024-12-26'] });  // "2024-12-27"
+ */
+export function addBusinessDays(dateKey: DayKey, amount: number, options?: BusinessCalendarOptions): DayKey;
+export function addBusinessDays(dateKey: HourKey, amount: number, options?: BusinessCalendarOptions): HourKey;
+export function addBusinessDays(dateKey: MinuteKey, amount: number, options?: BusinessCalendarOptions): MinuteKey;
+export function addBusinessDays(dateKey: DayKey | HourKey | MinuteKey, amount: number, options?: BusinessCalendarOptions): DayKey | HourKey | MinuteKey;
+export function addBusinessDays(dateKey: DayKey | HourKey | MinuteKey, amount: number, options?: BusinessCalendarOptions): DayKey | HourKey | MinuteKey {
+  assertDayResolution(dateKey);
+  const isWorkingDay = createBusinessDayTest(options);
+  const dayKey = convertDateKey(dateKey, 'day');
+  const step = amount < 0 ? -1 : 1;
+  let day = dateKeyToOrdinal(dayKey);
+  for (let remaining = Math.abs(amount); remaining > 0; remaining--) {
+    day = findBusinessDay(day + step, step, isWorkingDay);
+  }
+  // The time of day, if any, follows the day key
+  return `${ordinalToDateKey(day, 'day')}${dateKey.slice(dayKey.length)}` as DayKey | HourKey | MinuteKey;
+}
+
+/**
+ * Counts the working days in a period or range of any resolution.
+ *
+ * @param range - A date key, or a range of date keys, whose days are counted
+ * @param options - Optional weekend days, holidays, observed holiday rule, and week numbering options
+ * @returns The number of working days, including both ends of the range
+ *
+ * @example
+ * countBusinessDays('2024-02');  // 21
+ * countBusinessDays('2024-W03');  // 5
+ * countBusinessDays({ start: '2024-12-23', end: '2024-12-31' }, { holidays: ['2024-12-25'] });  // 6
+ */
+export function countBusinessDays(range: DateKey | DateKeyRange, options?: BusinessCalendarOptions): number {
+  const isWorkingDay = createBusinessDayTest(options);
+  const { first, last } = getDayBounds(typeof range === 'string' ? { start: range, end: range } : range, options);
+  let count = 0;
+  for (let day = first; day <= last; day++) {
+    if (isWorkingDay(day)) count++;
+  }
+  return count;
+}
+
+/**
+ * Finds the first working day after a period of any resolution.
+ *
+ * @param dateKey - The date key to start after
+ * @param options - Optional weekend days, holidays, observed holiday rule, and week numbering options
+ * @returns The day key of the next working day
+ *
+ * @example
+ * nextBusinessDay('2024-01-12');  // "2024-01-15" (Friday to Monday)
+ * nextBusinessDay('2024-03');     // "2024-04-01"
+ * nextBusinessDay('2024-12-24', { holidays: ['2024-12-25'] });  // "2024-12-26"
+ */
+export function nextBusinessDay(dateKey: DateKey, options?: BusinessCalendarOptions): DayKey {
+  const { last } = getDayBounds({ start: dateKey, end: dateKey }, options);
+  return ordinalToDateKey(findBusinessDay(last + 1, 1, createBusinessDayTest(options)), 'day');
+}
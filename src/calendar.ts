@@ -0,0 +1,130 @@
+/**
+ * Integer arithmetic on the proleptic Gregorian calendar, counting days from 1970-01-01.
+ *
+ * These work on calendar dates rather than instants, so they never depend on the host
+ * time zone or daylight saving time.
+ */
+
+/**
+ * The week rules used to number weeks, as resolved by `resolveWeekOptions`.
+ */
+export interface WeekRules {
+  weekStartsOn: number;
+  firstWeekContainsDate: number;
+}
+
+/**
+ * Counts the days from 1970-01-01 to a calendar date.
+ *
+ * @param year - The year (e.g., 2024)
+ * @param month - The month (1-12)
+ * @param day - The day of the month (1-31)
+ * @returns The number of days since 1970-01-01, negative for earlier dates
+ *
+ * @example
+ * daysFromCivil(1970, 1, 1);   // 0
+ * daysFromCivil(2024, 1, 15);  // 19737
+ */
+export function daysFromCivil(year: number, month: number, day: number): number {
+  // Counts from March, so the leap day falls at the end of each 400-year era's years
+  const y = month <= 2 ? year - 1 : year;
+  const era = Math.floor(y / 400);
+  const yearOfEra = y - era * 400;
+  const dayOfYear = Math.floor((153 * (month + (month > 2 ? -3 : 9)) + 2) / 5) + day - 1;
+  const dayOfEra = yearOfEra * 365 + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100) + dayOfYear;
+  return era * 146097 + dayOfEra - 719468;
+}
+
+/**
+ * Finds the calendar date a number of days after 1970-01-01.
+ *
+ * @param days - The number of days since 1970-01-01
+ * @returns The year, month (1-12), and day of the month
+ *
+ * @example
+ * civilFromDays(19737);  // { year: 2024, month: 1, day: 15 }
+ */
+export function civilFromDays(days: number): { year: number; month: number; day: number } {
+  const z = days + 719468;
+  const era = Math.floor(z / 146097);
+  const dayOfEra = z - era * 146097;
+  const yearOfEra = Math.floor(
+    (dayOfEra - Math.floor(dayOfEra / 1460) + Math.floor(dayOfEra / 36524) - Math.floor(dayOfEra / 146096)) / 365,
+  );
+  const dayOfYear = dayOfEra - (365 * yearOfEra + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100));
+  const shiftedMonth = Math.floor((5 * dayOfYear + 2) / 153);
+  const month = shiftedMonth < 10 ? shiftedMonth + 3 : shiftedMonth - 9;
+  return {
+    year: yearOfEra + era * 400 + (month <= 2 ? 1 : 0),
+    month,
+    day: dayOfYear - Math.floor((153 * shiftedMonth + 2) / 5) + 1,
+  };
+}
+
+/**
+ * Gets the number of days in a month.
+ *
+ * @param year - The year
+ * @param month - The month (1-12)
+ * @returns The number of days in the month (28-31)
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return month === 2 ? (year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0) ? 29 : 28) : 30 + ((month + Math.floor(month / 8)) % 2);
+}
+
+/**
+ * Gets the day of the week of a day count.
+ *
+ * @param days - The number of days since 1970-01-01
+ * @returns The day of the week, 0 for Sunday through 6 for Saturday
+ */
+export function getWeekday(days: number): number {
+  // 1970-01-01 was a Thursday
+  return (((days + 4) % 7) + 7) % 7;
+}
+
+/**
+ * Finds the first day of the week containing a day count.
+ *
+ * @param days - The number of days since 1970-01-01
+ * @param weekStartsOn - The day the week starts on (0 for Sunday)
+ * @returns The day count of the week's first day
+ */
+export function startOfWeekDays(days: number, weekStartsOn: number): number {
+  return days - ((getWeekday(days) - weekStartsOn + 7) % 7);
+}
+
+/**
+ * Finds the first day of a numbered week.
+ *
+ * Week 1 of a week year is the week containing January `firstWeekContainsDate`, and
+ * week numbers past the end of the year continue into the next one.
+ *
+ * @param weekYear - The week year
+ * @param week - The week number (1-53)
+ * @param rules - The week rules to number weeks by
+ * @returns The day count of the week's first day
+ */
+export function getWeekStartDays(weekYear: number, week: number, rules: WeekRules): number {
+  const firstWeekStart = startOfWeekDays(daysFromCivil(weekYear, 1, rules.firstWeekContainsDate), rules.weekStartsOn);
+  return firstWeekStart + (week - 1) * 7;
+}
+
+/**
+ * Finds the week year and week number of the week containing a day count.
+ *
+ * @param days - The number of days since 1970-01-01
+ * @param rules - The week rules to number weeks by
+ * @returns The week year and week number
+ */
+export function getWeekOfDays(days: number, rules: WeekRules): { year: number; week: number } {
+  const weekStart = startOfWeekDays(days, rules.weekStartsOn);
+  // A week belongs to the year of its last day, unless it ends before that year's week 1 starts
+  let year = civilFromDays(weekStart + 6).year;
+  let firstWeekStart = getWeekStartDays(year, 1, rules);
+  if (firstWeekStart > weekStart) {
+    year -= 1;
+    firstWeekStart = getWeekStartDays(year, 1, rules);
+  }
+  return { year, week: (weekStart - firstWeekStart) / 7 + 1 };
+}
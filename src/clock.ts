@@ -0,0 +1,88 @@
+import type { DateKey, DateKeyOptions, DateKeyType, DayKey, HourKey, MinuteKey, MonthKey, QuarterKey, WeekKey, WeekOptions, YearKey } from './types';
+import { convertDateKey, formatDateAsKey, parseDateKey } from './converters';
+
+export interface CurrentPeriodOptions extends DateKeyOptions {
+  /**
+   * The reference date that defines the current period. Date keys refer to the start of their period.
+   *
+   * @default The library-wide clock (see `setClock`)
+   */
+  now?: Date | DateKey;
+}
+
+const systemClock = () => new Date();
+
+let clock: () => Date = systemClock;
+
+/**
+ * Sets the library-wide clock used wherever the current date is needed and no `now` is given.
+ * 
+ * @param nextClock - A function returning the current date, or `null` to restore the system clock
+ * 
+ * @example
+ * setClock(() => new Date(2026, 5, 17));  // Freeze "now" for tests or server rendering
+ * setClock(null);                         // Back to the system clock
+ */
+export function setClock(nextClock: (() => Date) | null): void {
+  clock = nextClock ?? systemClock;
+}
+
+/**
+ * Gets the current date from the library-wide clock.
+ * 
+ * @returns The current date, as reported by the clock set with `setClock`
+ * 
+ * @example
+ * getNow();  // Date for the current moment
+ */
+export function getNow(): Date {
+  return clock();
+}
+
+/**
+ * Resolves a `now` option into a reference Date.
+ * 
+ * Date keys resolve to the start of their period. When no reference is given, the
+ * library-wide clock is used.
+ * 
+ * @param now - The reference date or date key
+ * @param options - Optional week numbering options, used when the reference is a week key
+ * @returns The reference Date
+ */
+export function resolveNow(now?: Date | DateKey, options?: WeekOptions): Date {
+  if (now === undefined) return getNow();
+  if (typeof now === 'string') return parseDateKey(now, options);
+  return now;
+}
+
+/**
+ * Gets the date key of the current period.
+ * 
+ * A `now` given as a date key is converted directly, without a time zone. Otherwise the
+ * reference instant is read in the requested time zone, or the host's local time zone.
+ * 
+ * @param type - The resolution of the key to get
+ * @param options - Optional reference date, time zone, and week numbering options
+ * @returns The date key of the current period
+ * 
+ * @example
+ * getCurrentDateKey('hour');                             // "2026-06-17T13" (if it's 1 PM on June 17, 2026)
+ * getCurrentDateKey('day');                              // "2026-06-17" (if today is June 17, 2026)
+ * getCurrentDateKey('day', { timeZone: 'Asia/Tokyo' });  // "2026-06-18" (if it's already June 18 in Tokyo)
+ * getCurrentDateKey('quarter', { now: '2026-05-04' });   // "2026-Q2"
+ */
+export function getCurrentDateKey(type: 'minute', options?: CurrentPeriodOptions): MinuteKey;
+export function getCurrentDateKey(type: 'hour', options?: CurrentPeriodOptions): HourKey;
+export function getCurrentDateKey(type: 'day', options?: CurrentPeriodOptions): DayKey;
+export function getCurrentDateKey(type: 'week', options?: CurrentPeriodOptions): WeekKey;
+export function getCurrentDateKey(type: 'month', options?: CurrentPeriodOptions): MonthKey;
+export function getCurrentDateKey(type: 'quarter', options?: CurrentPeriodOptions): QuarterKey;
+export function getCurrentDateKey(type: 'year', options?: CurrentPeriodOptions): YearKey;
+export function getCurrentDateKey(type: DateKeyType, options?: CurrentPeriodOptions): DateKey;
+export function getCurrentDateKey(type: DateKeyType, options: CurrentPeriodOptions = {}): DateKey {
+  const { now = getNow() } = options;
+  if (typeof now === 'string') {
+    return convertDateKey(now, type, options);
+  }
+  return formatDateAsKey(now, type, options);
+}
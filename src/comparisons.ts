@@ -1,85 +1,148 @@
 import type { DateKey, DateKeyType } from './types';
-import { convertDateKey, formatDateAsKey, getDateKeyType } from './converters';
+import { convertDateKey, getDateKeyType } from './converters';
+import { getCurrentDateKey } from './clock';
+import type { CurrentPeriodOptions } from './clock';
 
 /**
  * Checks if a date key represents the current period.
  * 
  * @param dateKey - The date key to check
  * @param period - Optional period type to check against. If not provided, uses the date key's own type
+ * @param options - Optional reference date, time zone, and week numbering options
  * @returns True if the date key represents the current period
  * 
  * @example
+ * isCurrentPeriod('2026-02-17T13');  // true (if it's 1 PM on Feb 17, 2026)
  * isCurrentPeriod('2026-02-17');  // true (if today is Feb 17, 2026)
  * isCurrentPeriod('2026-02-17', 'week');  // true (if this week)
  * isCurrentPeriod('2026-02', 'month');  // true (if this month)
+ * isCurrentPeriod('2026-Q1');  // true (if this quarter)
+ * isCurrentPeriod('2026-02-17', 'month', { now: '2026-02' });  // true
  */
-export function isCurrentPeriod(dateKey: DateKey, period?: DateKeyType): boolean {
+export function isCurrentPeriod(dateKey: DateKey, period?: DateKeyType, options?: CurrentPeriodOptions): boolean {
   switch (period ?? getDateKeyType(dateKey)) {
+    case 'minute':
+      return isCurrentMinute(dateKey, options);
+    case 'hour':
+      return isCurrentHour(dateKey, options);
     case 'day':
-      return isCurrentDay(dateKey);
+      return isCurrentDay(dateKey, options);
     case 'week':
-      return isCurrentWeek(dateKey);
+      return isCurrentWeek(dateKey, options);
     case 'month':
-      return isCurrentMonth(dateKey);
+      return isCurrentMonth(dateKey, options);
+    case 'quarter':
+      return isCurrentQuarter(dateKey, options);
     case 'year':
-      return isCurrentYear(dateKey);
+      return isCurrentYear(dateKey, options);
     default:
       return false;
   }
 }
 
+/**
+ * Checks if a date key represents the current minute.
+ * 
+ * @param dateKey - The date key to check
+ * @param options - Optional reference date, time zone, and week numbering options
+ * @returns True if the date key represents the current minute
+ * 
+ * @example
+ * isCurrentMinute('2026-02-17T13:45');  // true (if it's 1:45 PM on Feb 17, 2026)
+ */
+export function isCurrentMinute(dateKey: DateKey, options?: CurrentPeriodOptions): boolean {
+  return convertDateKey(dateKey, 'minute', options) === getCurrentDateKey('minute', options);
+}
+
+/**
+ * Checks if a date key falls within the current hour.
+ * 
+ * @param dateKey - The date key to check
+ * @param options - Optional reference date, time zone, and week numbering options
+ * @returns True if the date key falls within the current hour
+ * 
+ * @example
+ * isCurrentHour('2026-02-17T13');     // true (if it's 1 PM on Feb 17, 2026)
+ * isCurrentHour('2026-02-17T13:45');  // true (if it's 1 PM on Feb 17, 2026)
+ */
+export function isCurrentHour(dateKey: DateKey, options?: CurrentPeriodOptions): boolean {
+  return convertDateKey(dateKey, 'hour', options) === getCurrentDateKey('hour', options);
+}
+
 /**
  * Checks if a date key represents today.
  * 
  * @param dateKey - The date key to check
+ * @param options - Optional reference date, time zone, and week numbering options
  * @returns True if the date key represents today
  * 
  * @example
  * isCurrentDay('2026-02-17');  // true (if today is Feb 17, 2026)
  * isCurrentDay('2026-02-16');  // false
+ * isCurrentDay('2026-02-16', { now: new Date(2026, 1, 16) });  // true
+ * isCurrentDay('2026-02-18', { timeZone: 'Asia/Tokyo' });  // true (if it's Feb 18 in Tokyo)
  */
-export function isCurrentDay(dateKey: DateKey): boolean {
-  return convertDateKey(dateKey, 'day') === formatDateAsKey(new Date(), 'day');
+export function isCurrentDay(dateKey: DateKey, options?: CurrentPeriodOptions): boolean {
+  return convertDateKey(dateKey, 'day', options) === getCurrentDateKey('day', options);
 }
 
 /**
  * Checks if a date key falls within the current week.
  * 
  * @param dateKey - The date key to check
+ * @param options - Optional reference date, time zone, and week numbering options
  * @returns True if the date key falls within the current week
  * 
  * @example
  * isCurrentWeek('2026-02-17');  // true (if this week)
  * isCurrentWeek('2026-W08');    // true (if this is week 8)
+ * isCurrentWeek('2026-W08', { weekSystem: 'iso' });  // true (if this is ISO week 8)
  */
-export function isCurrentWeek(dateKey: DateKey): boolean {
-  return convertDateKey(dateKey, 'week') === formatDateAsKey(new Date(), 'week');
+export function isCurrentWeek(dateKey: DateKey, options?: CurrentPeriodOptions): boolean {
+  return convertDateKey(dateKey, 'week', options) === getCurrentDateKey('week', options);
 }
 
 /**
  * Checks if a date key falls within the current month.
  * 
  * @param dateKey - The date key to check
+ * @param options - Optional reference date, time zone, and week numbering options
  * @returns True if the date key falls within the current month
  * 
  * @example
  * isCurrentMonth('2026-02-17');  // true (if this month is Feb 2026)
  * isCurrentMonth('2026-02');     // true (if this month is Feb 2026)
  */
-export function isCurrentMonth(dateKey: DateKey): boolean {
-  return convertDateKey(dateKey, 'month') === formatDateAsKey(new Date(), 'month');
+export function isCurrentMonth(dateKey: DateKey, options?: CurrentPeriodOptions): boolean {
+  return convertDateKey(dateKey, 'month', options) === getCurrentDateKey('month', options);
+}
+
+/**
+ * Checks if a date key falls within the current quarter.
+ * 
+ * @param dateKey - The date key to check
+ * @param options - Optional reference date, time zone, and week numbering options
+ * @returns True if the date key falls within the current quarter
+ * 
+ * @example
+ * isCurrentQuarter('2026-02-17');  // true (if this quarter is Q1 2026)
+ * isCurrentQuarter('2026-Q1');     // true (if this quarter is Q1 2026)
+ */
+export function isCurrentQuarter(dateKey: DateKey, options?: CurrentPeriodOptions): boolean {
+  return convertDateKey(dateKey, 'quarter', options) === getCurrentDateKey('quarter', options);
 }
 
 /**
  * Checks if a date key falls within the current year.
  * 
  * @param dateKey - The date key to check
+ * @param options - Optional reference date, time zone, and week numbering options
  * @returns True if the date key falls within the current year
  * 
  * @example
  * isCurrentYear('2026-02-17');  // true (if this year is 2026)
  * isCurrentYear('2026');        // true (if this year is 2026)
  */
-export function isCurrentYear(dateKey: DateKey): boolean {
-  return convertDateKey(dateKey, 'year') === formatDateAsKey(new Date(), 'year');
+export function isCurrentYear(dateKey: DateKey, options?: CurrentPeriodOptions): boolean {
+  return convertDateKey(dateKey, 'year', options) === getCurrentDateKey('year', options);
 }
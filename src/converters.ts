@@ -1,19 +1,126 @@
-import { format, getWeek, getWeekYear, parse, parseISO, startOfWeek } from 'date-fns';
-import type { DateKey, DateKeyType, DayKey, MonthKey, WeekKey, YearKey } from './types';
-import { isDayKey, isMonthKey, isWeekKey, isYearKey } from './guards';
-import { toDayKey, toMonthKey, toWeekKey, toYearKey } from './builders';
+import type {
+  DateKey,
+  DateKeyOptions,
+  DateKeyType,
+  DayKey,
+  HourKey,
+  MinuteKey,
+  MonthKey,
+  QuarterKey,
+  TimeZoneOptions,
+  WeekKey,
+  WeekOptions,
+  YearKey,
+} from './types';
+import { isDayKey, isHourKey, isMinuteKey, isMonthKey, isQuarterKey, isWeekKey, isYearKey } from './guards';
+import { toDayKey, toHourKey, toMinuteKey, toMonthKey, toQuarterKey, toWeekKey, toYearKey } from './builders';
+import { getZonedParts } from './zones';
+import { civilFromDays, daysFromCivil, getDaysInMonth, getWeekOfDays, getWeekStartDays } from './calendar';
+import { DateKeyError } from './errors';
+
+/**
+ * Resolves week options into the concrete week rules used for week keys.
+ * 
+ * Explicit `weekStartsOn` and `firstWeekContainsDate` values take precedence over
+ * the defaults of the selected week system.
+ * 
+ * @param options - The week options to resolve
+ * @returns The day the week starts on and the day of January that is always in week 1
+ * 
+ * @example
+ * resolveWeekOptions();                      // { weekStartsOn: 0, firstWeekContainsDate: 1 }
+ * resolveWeekOptions({ weekSystem: 'iso' }); // { weekStartsOn: 1, firstWeekContainsDate: 4 }
+ */
+export function resolveWeekOptions(options: WeekOptions = {}): Required<Pick<WeekOptions, 'weekStartsOn' | 'firstWeekContainsDate'>> {
+  const iso = options.weekSystem === 'iso';
+  return {
+    weekStartsOn: options.weekStartsOn ?? (iso ? 1 : 0),
+    firstWeekContainsDate: options.firstWeekContainsDate ?? (iso ? 4 : 1),
+  };
+}
+
+/**
+ * Reads the calendar fields of a Date in local time, or in the requested time zone.
+ */
+function getCalendarFields(date: Date, options?: TimeZoneOptions): { year: number; month: number; day: number; hour: number; minute: number } {
+  if (options?.timeZone) {
+    return getZonedParts(date, options.timeZone);
+  }
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(), hour: date.getHours(), minute: date.getMinutes() };
+}
+
+/**
+ * Checks that calendar fields name an existing minute. Hour 24 is allowed at minute 0,
+ * as the midnight that ends the day.
+ */
+function isInCalendarRange(year: number, month: number, day: number, hour: number, minute: number): boolean {
+  return month >= 1 && month <= 12 &&
+    day >= 1 && day <= getDaysInMonth(year, month) &&
+    (hour === 24 ? minute === 0 : hour >= 0 && hour < 24 && minute >= 0 && minute < 60);
+}
+
+/**
+ * Creates a Date in local time from calendar fields, or an invalid Date if they are out of range.
+ * 
+ * Hour 24 is allowed at minute 0, as the midnight that ends the day.
+ */
+function toLocalDate(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  if (!isInCalendarRange(year, month, day, hour, minute)) {
+    return new Date(NaN);
+  }
+  const date = new Date(year, month - 1, day, hour, minute);
+  // The Date constructor reads years 0-99 as 1900-1999
+  if (year < 100) {
+    date.setFullYear(year, month - 1, day);
+  }
+  return date;
+}
+
+/**
+ * Converts a Date object to a MinuteKey.
+ * 
+ * @param date - The date to convert
+ * @param options - Optional time zone to read the date in
+ * @returns A MinuteKey in format "YYYY-MM-DDTHH:mm"
+ * 
+ * @example
+ * dateToMinuteKey(new Date(2024, 0, 15, 13, 45));  // "2024-01-15T13:45"
+ */
+export function dateToMinuteKey(date: Date, options?: TimeZoneOptions): MinuteKey {
+  const { year, month, day, hour, minute } = getCalendarFields(date, options);
+  return toMinuteKey(year, month, day, hour, minute);
+}
+
+/**
+ * Converts a Date object to an HourKey.
+ * 
+ * @param date - The date to convert
+ * @param options - Optional time zone to read the date in
+ * @returns An HourKey in format "YYYY-MM-DDTHH"
+ * 
+ * @example
+ * dateToHourKey(new Date(2024, 0, 15, 13, 45));  // "2024-01-15T13"
+ * dateToHourKey(new Date('2024-01-15T04:00:00Z'), { timeZone: 'Asia/Tokyo' });  // "2024-01-15T13"
+ */
+export function dateToHourKey(date: Date, options?: TimeZoneOptions): HourKey {
+  const { year, month, day, hour } = getCalendarFields(date, options);
+  return toHourKey(year, month, day, hour);
+}
 
 /**
  * Converts a Date object to a DayKey.
  * 
  * @param date - The date to convert
+ * @param options - Optional time zone to read the date in
  * @returns A DayKey in format "YYYY-MM-DD"
  * 
  * @example
  * dateToDayKey(new Date(2024, 0, 15));  // "2024-01-15"
+ * dateToDayKey(new Date('2024-01-15T16:00:00Z'), { timeZone: 'Asia/Tokyo' });  // "2024-01-16"
  */
-export function dateToDayKey(date: Date): DayKey {
-  return toDayKey(date.getFullYear(), date.getMonth() + 1, date.getDate());
+export function dateToDayKey(date: Date, options?: TimeZoneOptions): DayKey {
+  const { year, month, day } = getCalendarFields(date, options);
+  return toDayKey(year, month, day);
 }
 
 /**
@@ -26,107 +133,231 @@ export function dateToDayKey(date: Date): DayKey {
  * Example: December 31, 2023 (Sunday) starts a week containing January 1-6, 2024.
  * This week belongs to 2024, so it returns "2024-W01" (not "2023-W01").
  * 
+ * Pass `{ weekSystem: 'iso' }` to use ISO-8601 weeks (Monday start, week 1 contains January 4th).
+ * 
  * @param date - The date to convert
+ * @param options - Optional week numbering options and time zone
  * @returns A WeekKey in format YYYY-Www (e.g., "2024-W01")
+ * 
+ * @example
+ * dateToWeekKey(new Date(2023, 11, 31));                         // "2024-W01"
+ * dateToWeekKey(new Date(2023, 11, 31), { weekSystem: 'iso' });  // "2023-W52"
  */
-export function dateToWeekKey(date: Date): WeekKey {
-  return toWeekKey(getWeekYear(date), getWeek(date));
+export function dateToWeekKey(date: Date, options?: DateKeyOptions): WeekKey {
+  const { year: calendarYear, month, day } = getCalendarFields(date, options);
+  const { year, week } = getWeekOfDays(daysFromCivil(calendarYear, month, day), resolveWeekOptions(options));
+  return toWeekKey(year, week);
 }
 
 /**
  * Converts a Date object to a MonthKey.
  * 
  * @param date - The date to convert
+ * @param options - Optional time zone to read the date in
  * @returns A MonthKey in format "YYYY-MM"
  * 
  * @example
  * dateToMonthKey(new Date(2024, 0, 15));  // "2024-01"
  */
-export function dateToMonthKey(date: Date): MonthKey {
-  return toMonthKey(date.getFullYear(), date.getMonth() + 1);
+export function dateToMonthKey(date: Date, options?: TimeZoneOptions): MonthKey {
+  const { year, month } = getCalendarFields(date, options);
+  return toMonthKey(year, month);
+}
+
+/**
+ * Converts a Date object to a QuarterKey.
+ * 
+ * @param date - The date to convert
+ * @param options - Optional time zone to read the date in
+ * @returns A QuarterKey in format "YYYY-Qq"
+ * 
+ * @example
+ * dateToQuarterKey(new Date(2024, 4, 15));  // "2024-Q2"
+ */
+export function dateToQuarterKey(date: Date, options?: TimeZoneOptions): QuarterKey {
+  const { year, month } = getCalendarFields(date, options);
+  return toQuarterKey(year, Math.ceil(month / 3));
 }
 
 /**
  * Converts a Date object to a YearKey.
  * 
  * @param date - The date to convert
+ * @param options - Optional time zone to read the date in
  * @returns A YearKey in format "YYYY"
  * 
  * @example
  * dateToYearKey(new Date(2024, 0, 15));  // "2024"
  */
-export function dateToYearKey(date: Date): YearKey {
-  return toYearKey(date.getFullYear());
+export function dateToYearKey(date: Date, options?: TimeZoneOptions): YearKey {
+  return toYearKey(getCalendarFields(date, options).year);
 }
 
 /**
  * Converts a date key from one resolution to another.
  * 
  * @param dateKey - The date key to convert
- * @param targetType - The target resolution ('day', 'week', 'month', or 'year')
+ * @param targetType - The target resolution ('minute', 'hour', 'day', 'week', 'month', 'quarter', or 'year')
+ * @param options - Optional week numbering options, used to read and produce week keys
  * @returns A date key of the target type
  * 
  * @example
- * convertDateKey('2024-01-15', 'week');   // "2024-W03"
- * convertDateKey('2024-01-15', 'month');  // "2024-01"
- * convertDateKey('2024-01-15', 'year');   // "2024"
+ * convertDateKey('2024-01-15T13:45', 'hour');  // "2024-01-15T13"
+ * convertDateKey('2024-01-15T13', 'day');      // "2024-01-15"
+ * convertDateKey('2024-01-15', 'hour');        // "2024-01-15T00"
+ * convertDateKey('2024-01-15', 'week');     // "2024-W03"
+ * convertDateKey('2024-01-15', 'month');    // "2024-01"
+ * convertDateKey('2024-01-15', 'quarter');  // "2024-Q1"
+ * convertDateKey('2024-01-15', 'year');     // "2024"
+ * convertDateKey('2024-01-01', 'week', { weekSystem: 'iso' });  // "2024-W01"
  */
-export function convertDateKey(dateKey: DateKey, targetType: 'day'): DayKey;
-export function convertDateKey(dateKey: DateKey, targetType: 'week'): WeekKey;
-export function convertDateKey(dateKey: DateKey, targetType: 'month'): MonthKey;
-export function convertDateKey(dateKey: DateKey, targetType: 'year'): YearKey;
-export function convertDateKey(dateKey: DateKey, targetType: DateKeyType): DateKey;
-export function convertDateKey(dateKey: DateKey, targetType: DateKeyType): DateKey {
-  const date = parseDateKey(dateKey);
-  return formatDateAsKey(date, targetType);
+export function convertDateKey(dateKey: DateKey, targetType: 'minute', options?: WeekOptions): MinuteKey;
+export function convertDateKey(dateKey: DateKey, targetType: 'hour', options?: WeekOptions): HourKey;
+export function convertDateKey(dateKey: DateKey, targetType: 'day', options?: WeekOptions): DayKey;
+export function convertDateKey(dateKey: DateKey, targetType: 'week', options?: WeekOptions): WeekKey;
+export function convertDateKey(dateKey: DateKey, targetType: 'month', options?: WeekOptions): MonthKey;
+export function convertDateKey(dateKey: DateKey, targetType: 'quarter', options?: WeekOptions): QuarterKey;
+export function convertDateKey(dateKey: DateKey, targetType: 'year', options?: WeekOptions): YearKey;
+export function convertDateKey(dateKey: DateKey, targetType: DateKeyType, options?: WeekOptions): DateKey;
+export function convertDateKey(dateKey: DateKey, targetType: DateKeyType, options?: WeekOptions): DateKey {
+  // Converted from the key's own fields, as a local Date would shift times in the host's DST gaps
+  const { year, month, day, hour, minute } = getDateKeyStartFields(dateKey, options);
+  if (!isInCalendarRange(year, month, day, hour, minute)) {
+    throw new RangeError('Invalid time value');
+  }
+  // Hour 24 is the midnight that starts the next day
+  const days = daysFromCivil(year, month, day) + (hour === 24 ? 1 : 0);
+  return formatCalendarFieldsAsKey({ ...civilFromDays(days), hour: hour % 24, minute }, targetType, options);
 }
 
 /**
- * Converts a WeekKey to an ISO date string representing the start of that week.
+ * Builds the date key of a resolution that contains the minute given by calendar fields.
  * 
- * Week keys use the format YYYY-Www where:
- * - YYYY is the week year (not necessarily the calendar year)
- * - ww is the locale-based week number (1-53)
+ * @example
+ * formatCalendarFieldsAsKey({ year: 2024, month: 3, day: 10, hour: 2, minute: 30 }, 'hour');  // "2024-03-10T02"
+ */
+export function formatCalendarFieldsAsKey(
+  fields: { year: number; month: number; day: number; hour: number; minute: number },
+  type: DateKeyType,
+  options?: WeekOptions,
+): DateKey {
+  const { year, month, day, hour, minute } = fields;
+  switch (type) {
+    case 'minute':
+      return toMinuteKey(year, month, day, hour, minute);
+    case 'hour':
+      return toHourKey(year, month, day, hour);
+    case 'day':
+      return toDayKey(year, month, day);
+    case 'week': {
+      const { year: weekYear, week } = getWeekOfDays(daysFromCivil(year, month, day), resolveWeekOptions(options));
+      return toWeekKey(weekYear, week);
+    }
+    case 'month':
+      return toMonthKey(year, month);
+    case 'quarter':
+      return toQuarterKey(year, Math.ceil(month / 3));
+    case 'year':
+      return toYearKey(year);
+    default:
+      throw new Error('Invalid key type');
+  }
+}
+
+/**
+ * Gets the calendar fields of the moment a date key's period starts.
  * 
- * The week year is determined by which year the majority of the week's days fall in.
- * Weeks start on Sunday by default (locale-dependent).
+ * The fields are read from the key itself, so unlike `parseDateKey` they never pass through
+ * a local Date and cannot be shifted by DST transitions in the host's time zone. They are
+ * not range-checked.
  * 
- * @param week - The week key to convert (e.g., "2024-W01")
- * @returns ISO date string of the week's start date (e.g., "2023-12-31")
+ * @param key - The date key to read
+ * @param options - Optional week numbering options, used when reading week keys
+ * @returns The year, month (1-12), day, hour, and minute the period starts at
+ * @throws {RangeError} If a week key's week number is outside 1-53
+ * 
+ * @example
+ * getDateKeyStartFields('2024-03-10T02');  // { year: 2024, month: 3, day: 10, hour: 2, minute: 0 }
+ * getDateKeyStartFields('2024-W01');       // { year: 2023, month: 12, day: 31, hour: 0, minute: 0 }
  */
-function parseWeekKeyToDate(week: WeekKey): string {
-  // YYYY = week year, ww = locale week number
-  const date = parse(week, "YYYY-'W'ww", new Date(), { useAdditionalWeekYearTokens: true });
-  const weekStart = startOfWeek(date); // Defaults to Sunday
-  return format(weekStart, 'yyyy-MM-dd');
+export function getDateKeyStartFields(key: DateKey, options?: WeekOptions): { year: number; month: number; day: number; hour: number; minute: number } {
+  if (isMinuteKey(key)) {
+    return parseMinuteKey(key);
+  }
+  if (isHourKey(key)) {
+    return { ...parseHourKey(key), minute: 0 };
+  }
+  if (isDayKey(key)) {
+    return { ...parseDayKey(key), hour: 0, minute: 0 };
+  }
+  if (isWeekKey(key)) {
+    const { year, week } = parseWeekKey(key);
+    if (week < 1 || week > 53) {
+      throw new RangeError('Invalid time value');
+    }
+    return { ...civilFromDays(getWeekStartDays(year, week, resolveWeekOptions(options))), hour: 0, minute: 0 };
+  }
+  if (isMonthKey(key)) {
+    return { ...parseMonthKey(key), day: 1, hour: 0, minute: 0 };
+  }
+  if (isQuarterKey(key)) {
+    const { year, quarter } = parseQuarterKey(key);
+    return { year, month: (quarter - 1) * 3 + 1, day: 1, hour: 0, minute: 0 };
+  }
+  if (isYearKey(key)) {
+    return { year: parseYearKey(key), month: 1, day: 1, hour: 0, minute: 0 };
+  }
+  throw new DateKeyError('INVALID_FORMAT', `Invalid DateKey: ${key}`, key);
 }
 
 /**
  * Parses a date key into a Date object representing the start of that period.
  * 
  * @param key - The date key to parse
+ * @param options - Optional week numbering options, used when parsing week keys
  * @returns A Date object representing the start of the period
  * 
  * @example
+ * parseDateKey('2024-01-15T13:45');  // Date object for Jan 15, 2024 at 13:45
+ * parseDateKey('2024-01-15T13');     // Date object for Jan 15, 2024 at 13:00
  * parseDateKey('2024-01-15');  // Date object for Jan 15, 2024
  * parseDateKey('2024-01');     // Date object for Jan 1, 2024 (start of month)
  * parseDateKey('2024-W03');    // Date object for start of week 3
+ * parseDateKey('2024-W03', { weekSystem: 'iso' });  // Date object for Monday of ISO week 3
+ * parseDateKey('2024-Q2');     // Date object for Apr 1, 2024 (start of quarter)
  * parseDateKey('2024');        // Date object for Jan 1, 2024 (start of year)
  */
-export function parseDateKey(key: DateKey): Date {
-  if (isDayKey(key)) {
-    return parseISO(key);
-  }
-  if (isWeekKey(key)) {
-    return parseISO(parseWeekKeyToDate(key));
-  }
-  if (isMonthKey(key)) {
-    return parseISO(`${key}-01`);
-  }
-  if (isYearKey(key)) {
-    return parseISO(`${key}-01-01`);
-  }
-  throw new Error(`Invalid DateKey: ${key}`);
+export function parseDateKey(key: DateKey, options?: WeekOptions): Date {
+  const { year, month, day, hour, minute } = getDateKeyStartFields(key, options);
+  return toLocalDate(year, month, day, hour, minute);
+}
+
+/**
+ * Parses a MinuteKey into its component parts.
+ * 
+ * @param minuteKey - The minute key to parse
+ * @returns Object with year, month (1-12), day, hour (0-23), and minute (0-59) components
+ * 
+ * @example
+ * parseMinuteKey('2024-01-15T13:45');  // { year: 2024, month: 1, day: 15, hour: 13, minute: 45 }
+ */
+export function parseMinuteKey(minuteKey: MinuteKey): { year: number; month: number; day: number; hour: number; minute: number } {
+  const [hourKey, minuteStr] = minuteKey.split(':');
+  return { ...parseHourKey(hourKey as HourKey), minute: parseInt(minuteStr, 10) };
+}
+
+/**
+ * Parses an HourKey into its component parts.
+ * 
+ * @param hourKey - The hour key to parse
+ * @returns Object with year, month (1-12), day, and hour (0-23) components
+ * 
+ * @example
+ * parseHourKey('2024-01-15T13');  // { year: 2024, month: 1, day: 15, hour: 13 }
+ */
+export function parseHourKey(hourKey: HourKey): { year: number; month: number; day: number; hour: number } {
+  const [dayKey, hourStr] = hourKey.split('T');
+  return { ...parseDayKey(dayKey as DayKey), hour: parseInt(hourStr, 10) };
 }
 
 /**
@@ -171,6 +402,20 @@ export function parseMonthKey(monthKey: MonthKey): { year: number; month: number
   return { year: parseInt(yearStr, 10), month: parseInt(monthStr, 10) };
 }
 
+/**
+ * Parses a QuarterKey into its component parts.
+ * 
+ * @param quarterKey - The quarter key to parse
+ * @returns Object with year and quarter (1-4) components
+ * 
+ * @example
+ * parseQuarterKey('2024-Q2');  // { year: 2024, quarter: 2 }
+ */
+export function parseQuarterKey(quarterKey: QuarterKey): { year: number; quarter: number } {
+  const [yearStr, quarterStr] = quarterKey.split('-Q');
+  return { year: parseInt(yearStr, 10), quarter: parseInt(quarterStr, 10) };
+}
+
 /**
  * Parses a YearKey into a year number.
  * 
@@ -188,15 +433,32 @@ export function parseYearKey(yearKey: YearKey) {
  * Parses any date key into its component parts.
  * 
  * @param dateKey - The date key to parse
- * @returns Object with year and optional month, day, or week components depending on key type
+ * @returns Object with year and optional month, day, hour, minute, week, or quarter components depending on key type
  * 
  * @example
+ * parseDateKeyToParts('2024-01-15T13:45');  // { year: 2024, month: 1, day: 15, hour: 13, minute: 45 }
+ * parseDateKeyToParts('2024-01-15T13');     // { year: 2024, month: 1, day: 15, hour: 13 }
  * parseDateKeyToParts('2024-01-15');  // { year: 2024, month: 1, day: 15 }
  * parseDateKeyToParts('2024-W03');    // { year: 2024, week: 3 }
  * parseDateKeyToParts('2024-01');     // { year: 2024, month: 1 }
+ * parseDateKeyToParts('2024-Q1');     // { year: 2024, quarter: 1 }
  * parseDateKeyToParts('2024');        // { year: 2024 }
  */
-export function parseDateKeyToParts(dateKey: DateKey): { year: number; month?: number; day?: number; week?: number } {
+export function parseDateKeyToParts(dateKey: DateKey): {
+  year: number;
+  month?: number;
+  day?: number;
+  hour?: number;
+  minute?: number;
+  week?: number;
+  quarter?: number;
+} {
+  if (isMinuteKey(dateKey)) {
+    return parseMinuteKey(dateKey);
+  }
+  if (isHourKey(dateKey)) {
+    return parseHourKey(dateKey);
+  }
   if (isDayKey(dateKey)) {
     const { year, month, day } = parseDayKey(dateKey);
     return { year, month, day };
@@ -209,64 +471,74 @@ export function parseDateKeyToParts(dateKey: DateKey): { year: number; month?: n
     const { year, month } = parseMonthKey(dateKey);
     return { year, month };
   }
+  if (isQuarterKey(dateKey)) {
+    const { year, quarter } = parseQuarterKey(dateKey);
+    return { year, quarter };
+  }
   if (isYearKey(dateKey)) {
     const year = parseYearKey(dateKey);
     return { year };
   }
-  throw new Error(`Invalid DateKey: ${dateKey}`);
+  throw new DateKeyError('INVALID_FORMAT', `Invalid DateKey: ${dateKey}`, dateKey);
 }
 
 /**
  * Formats a Date object as a date key of the specified type.
  * 
  * @param date - The date to format
- * @param type - The type of date key to create ('day', 'week', 'month', or 'year')
+ * @param type - The type of date key to create ('minute', 'hour', 'day', 'week', 'month', 'quarter', or 'year')
+ * @param options - Optional time zone to read the date in, and week numbering options for week keys
  * @returns A date key of the specified type
  * 
  * @example
- * const date = new Date(2024, 0, 15);
- * formatDateAsKey(date, 'day');    // "2024-01-15"
- * formatDateAsKey(date, 'week');   // "2024-W03"
- * formatDateAsKey(date, 'month');  // "2024-01"
- * formatDateAsKey(date, 'year');   // "2024"
+ * const date = new Date(2024, 0, 15, 13, 45);
+ * formatDateAsKey(date, 'minute');   // "2024-01-15T13:45"
+ * formatDateAsKey(date, 'hour');     // "2024-01-15T13"
+ * formatDateAsKey(date, 'day');      // "2024-01-15"
+ * formatDateAsKey(date, 'week');     // "2024-W03"
+ * formatDateAsKey(date, 'month');    // "2024-01"
+ * formatDateAsKey(date, 'quarter');  // "2024-Q1"
+ * formatDateAsKey(date, 'year');     // "2024"
+ * formatDateAsKey(new Date(2023, 11, 31), 'week', { weekSystem: 'iso' });  // "2023-W52"
+ * formatDateAsKey(new Date('2024-01-15T16:00:00Z'), 'day', { timeZone: 'Asia/Tokyo' });  // "2024-01-16"
  */
-export function formatDateAsKey(date: Date, type: 'day'): DayKey;
-export function formatDateAsKey(date: Date, type: 'week'): WeekKey;
-export function formatDateAsKey(date: Date, type: 'month'): MonthKey;
-export function formatDateAsKey(date: Date, type: 'year'): YearKey;
-export function formatDateAsKey(date: Date, type: DateKeyType): DateKey;
-export function formatDateAsKey(date: Date, type: DateKeyType): DateKey {
-  switch (type) {
-    case 'day':
-      return format(date, 'yyyy-MM-dd') as DayKey;
-    case 'week':
-      // YYYY = week year (not calendar year), ww = locale week number
-      return format(date, "YYYY-'W'ww", { useAdditionalWeekYearTokens: true }) as WeekKey;
-    case 'month':
-      return format(date, 'yyyy-MM') as MonthKey;
-    case 'year':
-      return format(date, 'yyyy') as YearKey;
-    default:
-      throw new Error('Invalid key type');
+export function formatDateAsKey(date: Date, type: 'minute', options?: DateKeyOptions): MinuteKey;
+export function formatDateAsKey(date: Date, type: 'hour', options?: DateKeyOptions): HourKey;
+export function formatDateAsKey(date: Date, type: 'day', options?: DateKeyOptions): DayKey;
+export function formatDateAsKey(date: Date, type: 'week', options?: DateKeyOptions): WeekKey;
+export function formatDateAsKey(date: Date, type: 'month', options?: DateKeyOptions): MonthKey;
+export function formatDateAsKey(date: Date, type: 'quarter', options?: DateKeyOptions): QuarterKey;
+export function formatDateAsKey(date: Date, type: 'year', options?: DateKeyOptions): YearKey;
+export function formatDateAsKey(date: Date, type: DateKeyType, options?: DateKeyOptions): DateKey;
+export function formatDateAsKey(date: Date, type: DateKeyType, options?: DateKeyOptions): DateKey {
+  if (isNaN(date.getTime())) {
+    throw new RangeError('Invalid time value');
   }
+  return formatCalendarFieldsAsKey(getCalendarFields(date, options), type, options);
 }
 
 /**
  * Determines the type of a date key.
  * 
  * @param key - The date key to check
- * @returns The type of the date key ('day', 'week', 'month', or 'year')
+ * @returns The type of the date key ('minute', 'hour', 'day', 'week', 'month', 'quarter', or 'year')
  * 
  * @example
+ * getDateKeyType('2024-01-15T13:45');  // 'minute'
+ * getDateKeyType('2024-01-15T13');     // 'hour'
  * getDateKeyType('2024-01-15');  // 'day'
  * getDateKeyType('2024-W03');    // 'week'
  * getDateKeyType('2024-01');     // 'month'
+ * getDateKeyType('2024-Q1');     // 'quarter'
  * getDateKeyType('2024');        // 'year'
  */
 export function getDateKeyType(key: DateKey): DateKeyType {
+  if (isMinuteKey(key)) return 'minute';
+  if (isHourKey(key)) return 'hour';
   if (isDayKey(key)) return 'day';
   if (isWeekKey(key)) return 'week';
   if (isMonthKey(key)) return 'month';
+  if (isQuarterKey(key)) return 'quarter';
   if (isYearKey(key)) return 'year';
-  throw new Error(`Invalid DateKey: ${key}`);
+  throw new DateKeyError('INVALID_FORMAT', `Invalid DateKey: ${key}`, key);
 }
@@ -0,0 +1,41 @@
+export type DateKeyErrorCode =
+  | 'INVALID_TYPE'
+  | 'INVALID_FORMAT'
+  | 'INVALID_MONTH'
+  | 'INVALID_DAY'
+  | 'INVALID_HOUR'
+  | 'INVALID_MINUTE'
+  | 'INVALID_WEEK';
+
+/**
+ * Error thrown when a value is not a valid date key.
+ * 
+ * The `code` identifies what is wrong with the value:
+ * - `INVALID_TYPE`: The value is not a string.
+ * - `INVALID_FORMAT`: The string does not match any date key format (e.g., "2024-1-5").
+ * - `INVALID_MONTH`: The month is outside 1-12 (e.g., "2024-13").
+ * - `INVALID_DAY`: The day does not exist in its month (e.g., "2023-02-29").
+ * - `INVALID_HOUR`: The hour is outside 0-23 (e.g., "2024-01-15T24").
+ * - `INVALID_MINUTE`: The minute is outside 0-59 (e.g., "2024-01-15T13:60").
+ * - `INVALID_WEEK`: The week does not exist in its week year (e.g., "2024-W60").
+ * 
+ * @example
+ * try {
+ *   assertDateKey('2024-13-45');
+ * } catch (error) {
+ *   if (error instanceof DateKeyError) {
+ *     error.code;  // 'INVALID_MONTH'
+ *   }
+ * }
+ */
+export class DateKeyError extends Error {
+  readonly code: DateKeyErrorCode;
+  readonly value: unknown;
+
+  constructor(code: DateKeyErrorCode, message: string, value: unknown) {
+    super(message);
+    this.name = 'DateKeyError';
+    this.code = code;
+    this.value = value;
+  }
+}
@@ -0,0 +1,224 @@
+import type {
+  DateKey,
+  DateKeyType,
+  DayKey,
+  FiscalKey,
+  FiscalKeyType,
+  FiscalOptions,
+  FiscalQuarterKey,
+  FiscalYearKey,
+  HourKey,
+  MinuteKey,
+  MonthKey,
+  QuarterKey,
+  TimeZoneOptions,
+  WeekKey,
+  WeekOptions,
+  YearKey,
+} from './types';
+import { isFiscalQuarterKey, isFiscalYearKey } from './guards';
+import { toFiscalQuarterKey, toFiscalYearKey, toMonthKey } from './builders';
+import { convertDateKey, dateToMonthKey, parseDateKey, parseMonthKey } from './converters';
+import { getDateKeyInterval } from './periods';
+import { eachDateKey } from './iteration';
+import { DateKeyError } from './errors';
+
+/**
+ * Resolves fiscal options into the fiscal year's start month and the offset between
+ * the calendar year it starts in and the year it is named after.
+ */
+function resolveFiscalOptions(options: FiscalOptions = {}): { startMonth: number; nameOffset: number } {
+  const startMonth = options.fiscalYearStartMonth ?? 1;
+  // A fiscal year starting in January lies within a single calendar year, so both namings agree
+  const nameOffset = (options.fiscalYearNaming ?? 'end') === 'end' && startMonth !== 1 ? 1 : 0;
+  return { startMonth, nameOffset };
+}
+
+/**
+ * Finds the fiscal year and quarter that a calendar month belongs to.
+ */
+function getFiscalParts(monthKey: MonthKey, options?: FiscalOptions): { year: number; quarter: number } {
+  const { startMonth, nameOffset } = resolveFiscalOptions(options);
+  const { year, month } = parseMonthKey(monthKey);
+  const monthsIntoYear = (month - startMonth + 12) % 12;
+  const startYear = month >= startMonth ? year : year - 1;
+  return { year: startYear + nameOffset, quarter: Math.floor(monthsIntoYear / 3) + 1 };
+}
+
+/**
+ * Gets the first and last calendar months of a fiscal key's period.
+ */
+function getFiscalMonthRange(fiscalKey: FiscalKey, options?: FiscalOptions): { start: MonthKey; end: MonthKey } {
+  const { startMonth, nameOffset } = resolveFiscalOptions(options);
+  const { year, quarter } = isFiscalQuarterKey(fiscalKey)
+    ? parseFiscalQuarterKey(fiscalKey)
+    : { year: parseFiscalYearKey(fiscalKey), quarter: undefined };
+  const firstMonth = quarter === undefined ? 0 : (quarter - 1) * 3;
+  const length = quarter === undefined ? 12 : 3;
+  // Month indexes past December roll over into the next calendar year
+  const toKey = (index: number) => {
+    const monthIndex = startMonth - 1 + index;
+    return toMonthKey(year - nameOffset + Math.floor(monthIndex / 12), (monthIndex % 12) + 1);
+  };
+  return { start: toKey(firstMonth), end: toKey(firstMonth + length - 1) };
+}
+
+function assertFiscalKey(fiscalKey: FiscalKey): void {
+  if (!isFiscalYearKey(fiscalKey) && !isFiscalQuarterKey(fiscalKey)) {
+    throw new DateKeyError('INVALID_FORMAT', `Invalid FiscalKey: ${fiscalKey}`, fiscalKey);
+  }
+}
+
+/**
+ * Converts a Date object to a FiscalYearKey.
+ *
+ * @param date - The date to convert
+ * @param options - The fiscal calendar, and an optional time zone to read the date in
+ * @returns A FiscalYearKey in format "FYYYYY" (e.g., "FY2025")
+ *
+ * @example
+ * dateToFiscalYearKey(new Date(2024, 9, 1), { fiscalYearStartMonth: 10 });  // "FY2025"
+ * dateToFiscalYearKey(new Date(2024, 9, 1), { fiscalYearStartMonth: 10, fiscalYearNaming: 'start' });  // "FY2024"
+ */
+export function dateToFiscalYearKey(date: Date, options?: FiscalOptions & TimeZoneOptions): FiscalYearKey {
+  return toFiscalYearKey(getFiscalParts(dateToMonthKey(date, options), options).year);
+}
+
+/**
+ * Converts a Date object to a FiscalQuarterKey.
+ *
+ * @param date - The date to convert
+ * @param options - The fiscal calendar, and an optional time zone to read the date in
+ * @returns A FiscalQuarterKey in format "FYYYYY-Qq" (e.g., "FY2025-Q1")
+ *
+ * @example
+ * dateToFiscalQuarterKey(new Date(2024, 9, 1), { fiscalYearStartMonth: 10 });  // "FY2025-Q1"
+ * dateToFiscalQuarterKey(new Date(2025, 8, 30), { fiscalYearStartMonth: 10 }); // "FY2025-Q4"
+ */
+export function dateToFiscalQuarterKey(date: Date, options?: FiscalOptions & TimeZoneOptions): FiscalQuarterKey {
+  const { year, quarter } = getFiscalParts(dateToMonthKey(date, options), options);
+  return toFiscalQuarterKey(year, quarter);
+}
+
+/**
+ * Parses a FiscalYearKey into a fiscal year number.
+ *
+ * @param fiscalYearKey - The fiscal year key to parse
+ * @returns The fiscal year as named by the key
+ *
+ * @example
+ * parseFiscalYearKey('FY2025');  // 2025
+ */
+export function parseFiscalYearKey(fiscalYearKey: FiscalYearKey): number {
+  return parseInt(fiscalYearKey.slice(2), 10);
+}
+
+/**
+ * Parses a FiscalQuarterKey into its component parts.
+ *
+ * @param fiscalQuarterKey - The fiscal quarter key to parse
+ * @returns Object with fiscal year and quarter (1-4) components
+ *
+ * @example
+ * parseFiscalQuarterKey('FY2025-Q2');  // { year: 2025, quarter: 2 }
+ */
+export function parseFiscalQuarterKey(fiscalQuarterKey: FiscalQuarterKey): { year: number; quarter: number } {
+  const [yearStr, quarterStr] = fiscalQuarterKey.slice(2).split('-Q');
+  return { year: parseInt(yearStr, 10), quarter: parseInt(quarterStr, 10) };
+}
+
+/**
+ * Parses a fiscal key into a Date object representing the start of that fiscal period.
+ *
+ * @param fiscalKey - The fiscal key to parse
+ * @param options - The fiscal calendar the key belongs to
+ * @returns A Date object representing the first day of the fiscal period
+ *
+ * @example
+ * parseFiscalKey('FY2025', { fiscalYearStartMonth: 10 });     // Date object for Oct 1, 2024
+ * parseFiscalKey('FY2025-Q2', { fiscalYearStartMonth: 10 });  // Date object for Jan 1, 2025
+ */
+export function parseFiscalKey(fiscalKey: FiscalKey, options?: FiscalOptions): Date {
+  assertFiscalKey(fiscalKey);
+  return parseDateKey(getFiscalMonthRange(fiscalKey, options).start);
+}
+
+/**
+ * Converts a calendar date key to the fiscal period it falls in.
+ *
+ * Keys that span more than one day belong to the fiscal period of the day they start on.
+ *
+ * @param dateKey - The date key to convert
+ * @param targetType - The fiscal resolution ('fiscalQuarter' or 'fiscalYear')
+ * @param options - The fiscal calendar, and week numbering options used to read week keys
+ * @returns A fiscal key of the target type
+ *
+ * @example
+ * convertToFiscalKey('2024-10-15', 'fiscalYear', { fiscalYearStartMonth: 10 });     // "FY2025"
+ * convertToFiscalKey('2025-03', 'fiscalQuarter', { fiscalYearStartMonth: 10 });     // "FY2025-Q2"
+ */
+export function convertToFiscalKey(dateKey: DateKey, targetType: 'fiscalQuarter', options?: FiscalOptions & WeekOptions): FiscalQuarterKey;
+export function convertToFiscalKey(dateKey: DateKey, targetType: 'fiscalYear', options?: FiscalOptions & WeekOptions): FiscalYearKey;
+export function convertToFiscalKey(dateKey: DateKey, targetType: FiscalKeyType, options?: FiscalOptions & WeekOptions): FiscalKey;
+export function convertToFiscalKey(dateKey: DateKey, targetType: FiscalKeyType, options?: FiscalOptions & WeekOptions): FiscalKey {
+  const { year, quarter } = getFiscalParts(convertDateKey(dateKey, 'month', options), options);
+  return targetType === 'fiscalQuarter' ? toFiscalQuarterKey(year, quarter) : toFiscalYearKey(year);
+}
+
+/**
+ * Converts a fiscal key to the calendar date key of the period it starts in.
+ *
+ * @param fiscalKey - The fiscal key to convert
+ * @param targetType - The calendar resolution ('minute', 'hour', 'day', 'week', 'month', 'quarter', or 'year')
+ * @param options - The fiscal calendar, and week numbering options used to produce week keys
+ * @returns A date key of the target type
+ *
+ * @example
+ * convertFiscalKey('FY2025', 'month', { fiscalYearStartMonth: 10 });    // "2024-10"
+ * convertFiscalKey('FY2025-Q2', 'day', { fiscalYearStartMonth: 10 });   // "2025-01-01"
+ */
+export function convertFiscalKey(fiscalKey: FiscalKey, targetType: 'minute', options?: FiscalOptions & WeekOptions): MinuteKey;
+export function convertFiscalKey(fiscalKey: FiscalKey, targetType: 'hour', options?: FiscalOptions & WeekOptions): HourKey;
+export function convertFiscalKey(fiscalKey: FiscalKey, targetType: 'day', options?: FiscalOptions & WeekOptions): DayKey;
+export function convertFiscalKey(fiscalKey: FiscalKey, targetType: 'week', options?: FiscalOptions & WeekOptions): WeekKey;
+export function convertFiscalKey(fiscalKey: FiscalKey, targetType: 'month', options?: FiscalOptions & WeekOptions): MonthKey;
+export function convertFiscalKey(fiscalKey: FiscalKey, targetType: 'quarter', options?: FiscalOptions & WeekOptions): QuarterKey;
+export function convertFiscalKey(fiscalKey: FiscalKey, targetType: 'year', options?: FiscalOptions & WeekOptions): YearKey;
+export function convertFiscalKey(fiscalKey: FiscalKey, targetType: DateKeyType, options?: FiscalOptions & WeekOptions): DateKey;
+export function convertFiscalKey(fiscalKey: FiscalKey, targetType: DateKeyType, options?: FiscalOptions & WeekOptions): DateKey {
+  assertFiscalKey(fiscalKey);
+  return convertDateKey(getFiscalMonthRange(fiscalKey, options).start, targetType, options);
+}
+
+/**
+ * Lists the calendar months that make up a fiscal period.
+ *
+ * @param fiscalKey - The fiscal key
+ * @param options - The fiscal calendar the key belongs to
+ * @returns The month keys in chronological order
+ *
+ * @example
+ * getFiscalMonthKeys('FY2025-Q1', { fiscalYearStartMonth: 10 });  // ["2024-10", "2024-11", "2024-12"]
+ */
+export function getFiscalMonthKeys(fiscalKey: FiscalKey, options?: FiscalOptions): MonthKey[] {
+  assertFiscalKey(fiscalKey);
+  const { start, end } = getFiscalMonthRange(fiscalKey, options);
+  return eachDateKey(start, end);
+}
+
+/**
+ * Gets the time span covered by a fiscal key.
+ *
+ * @param fiscalKey - The fiscal key to get the interval of
+ * @param options - The fiscal calendar, and an optional time zone
+ * @returns The first and last moments (inclusive) of the fiscal period, in local time or the given time zone
+ *
+ * @example
+ * getFiscalKeyInterval('FY2025', { fiscalYearStartMonth: 10 });
+ * // { start: Oct 1, 2024 00:00:00.000, end: Sep 30, 2025 23:59:59.999 }
+ */
+export function getFiscalKeyInterval(fiscalKey: FiscalKey, options?: FiscalOptions & TimeZoneOptions): { start: Date; end: Date } {
+  assertFiscalKey(fiscalKey);
+  const { start, end } = getFiscalMonthRange(fiscalKey, options);
+  return { start: getDateKeyInterval(start, options).start, end: getDateKeyInterval(end, options).end };
+}
@@ -1,16 +1,35 @@
-import { endOfWeek, isValid, startOfWeek } from 'date-fns';
-import type { DateKey } from './types';
-import { isDayKey, isMonthKey, isWeekKey, isYearKey } from './guards';
-import { parseDateKey } from './converters';
-import { formatDateAsKey } from './converters';
+import type { DateKey, DateKeyOptions, FiscalKey, RetailKey } from './types';
+import {
+  isDayKey,
+  isFiscalQuarterKey,
+  isFiscalYearKey,
+  isHourKey,
+  isMinuteKey,
+  isMonthKey,
+  isQuarterKey,
+  isRetailPeriodKey,
+  isRetailQuarterKey,
+  isRetailYearKey,
+  isWeekKey,
+  isYearKey,
+} from './guards';
+import { convertDateKey, getDateKeyStartFields, getDateKeyType, parseDateKey, parseQuarterKey } from './converters';
+import { diffDateKeys } from './arithmetic';
+import { getDayBounds } from './periods';
+import { ordinalToDateKey } from './ordinals';
+import { parseFiscalQuarterKey } from './fiscal';
+import { parseRetailPeriodKey, parseRetailQuarterKey } from './retail';
+import { getCurrentDateKey, resolveNow } from './clock';
+import type { CurrentPeriodOptions } from './clock';
 
-export interface FormatFriendlyDateOptions {
+export interface FormatFriendlyDateOptions extends DateKeyOptions {
   /**
    * Omits the year and/or month from the formatted date if it matches the current year and/or month.
    *
    * - `year`: Omit the current year.
    * - `month`: Omit the current month.
    * - `true`: Omits current year and month based on the date resolution (e.g., day keys omit year and month, month keys omit year).
+   *   Hour and minute keys only ever omit the year.
    * - `false`: Do not omit the current year and month (default).
    *
    * @default false
@@ -27,10 +46,106 @@ export interface FormatFriendlyDateOptions {
    * @default 'long'
    */
   dateStyle?: 'full' | 'long' | 'medium' | 'short';
+  /**
+   * The locale(s) to format with, as a BCP 47 language tag or a list of tags in order of preference.
+   *
+   * Quarters keep their "Q1" to "Q4" labels in every locale, as `Intl` has no names for them;
+   * only their year and range separator are localized.
+   *
+   * @default 'en-US'
+   */
+  locale?: string | string[];
+  /**
+   * Uses relative wording (e.g., "yesterday", "this week", "in 2 months") for single date keys
+   * that are close to the current period.
+   *
+   * - `true`: Use relative wording within one period of the current one.
+   * - A number: Use relative wording within that many periods of the current one.
+   * - `false`: Always use absolute dates (default).
+   *
+   * @default false
+   */
+  relative?: boolean | number;
+  /**
+   * The reference date used by `omitCurrent` and `relative`, read in `timeZone` when one is given.
+   * Date keys refer to the start of their period.
+   *
+   * @default The library-wide clock (see `setClock`)
+   */
+  now?: Date | DateKey;
+}
+
+export interface FormatRelativeDateKeyOptions extends CurrentPeriodOptions {
+  /**
+   * The locale(s) to format with, as a BCP 47 language tag or a list of tags in order of preference.
+   *
+   * @default 'en-US'
+   */
+  locale?: string | string[];
+  /**
+   * Whether to always use numeric values, or phrases like "yesterday" and "last month" where available.
+   *
+   * @default 'auto'
+   */
+  numeric?: 'auto' | 'always';
+}
+
+// Formatters read dates in UTC, so DST transitions in the host's time zone cannot shift a key's wall-clock time
+function createFormatter(options: Intl.DateTimeFormatOptions, locale: string | string[] = 'en-US'): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' });
+}
+
+const isValidDate = (date: Date) => !isNaN(date.getTime());
+
+/**
+ * Creates a Date whose UTC fields hold the start of a date key, for the UTC formatters,
+ * or an invalid Date if the key is out of range.
+ */
+function toDisplayDate(dateKey: DateKey): Date {
+  if (!isValidDate(parseDateKey(dateKey))) {
+    return new Date(NaN);
+  }
+  const { year, month, day, hour, minute } = getDateKeyStartFields(dateKey);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  // Date.UTC reads years 0-99 as 1900-1999
+  if (year < 100) {
+    date.setUTCFullYear(date.getUTCFullYear() - 1900);
+  }
+  return date;
 }
 
-function createFormatter(options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
-  return new Intl.DateTimeFormat('en-US', options);
+/**
+ * Joins two already formatted strings using the locale's range pattern, so the
+ * separator and ordering match what `Intl.DateTimeFormat.formatRange` produces.
+ */
+function formatRangeText(startText: string, endText: string, locale?: string | string[]): string {
+  // Two distinct years guarantee that both ends of the range are present
+  const formatter = createFormatter({ year: 'numeric' }, locale);
+  const startDate = new Date(Date.UTC(2000, 0, 1));
+  const endDate = new Date(Date.UTC(2001, 0, 1));
+  const range = formatter.formatRange(startDate, endDate);
+  const startYear = formatter.format(startDate);
+  const endYear = formatter.format(endDate);
+
+  if (range.startsWith(startYear) && range.endsWith(endYear)) {
+    return startText + range.slice(startYear.length, range.length - endYear.length) + endText;
+  }
+  if (range.startsWith(endYear) && range.endsWith(startYear)) {
+    return endText + range.slice(endYear.length, range.length - startYear.length) + startText;
+  }
+  return `${startText} – ${endText}`;
+}
+
+/**
+ * Finds the locale's separator between a date and a time of day, as used by
+ * `Intl.DateTimeFormat.formatRange` for ranges within a single day.
+ */
+function getDateTimeSeparator(locale?: string | string[]): string {
+  const formatter = createFormatter({ year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric' }, locale);
+  const parts = formatter.formatRangeToParts(new Date(Date.UTC(2000, 0, 1, 1)), new Date(Date.UTC(2000, 0, 1, 2)));
+  const timeIndex = parts.findIndex((part) => part.source === 'startRange');
+  const previous = parts[timeIndex - 1];
+  return previous?.type === 'literal' ? previous.value : ', ';
 }
 
 function getMonthFormat(dateStyle: 'full' | 'long' | 'medium' | 'short'): 'long' | 'short' | 'numeric' {
@@ -45,26 +160,49 @@ function getMonthFormat(dateStyle: 'full' | 'long' | 'medium' | 'short'): 'long'
   }
 }
 
-function shouldOmitYear(date: Date, omitCurrent: boolean | 'year' | 'month'): boolean {
+/**
+ * Formats a quarter as "Q1" to "Q4", the same in every locale, followed by the localized year.
+ */
+function formatQuarter(quarter: number, date: Date, omitYear: boolean, locale?: string | string[]): string {
+  if (omitYear) return `Q${quarter}`;
+  const year = createFormatter({ year: 'numeric' }, locale).format(date);
+  return `Q${quarter} ${year}`;
+}
+
+function getDateFormatOptions(dateStyle: 'full' | 'long' | 'medium' | 'short', omitYear: boolean): Intl.DateTimeFormatOptions {
+  const options: Intl.DateTimeFormatOptions = { month: getMonthFormat(dateStyle), day: 'numeric' };
+  if (dateStyle === 'full') options.weekday = 'long';
+  if (!omitYear) options.year = dateStyle === 'short' ? '2-digit' : 'numeric';
+  return options;
+}
+
+function getTimeFormatOptions(dateKey: DateKey): Intl.DateTimeFormatOptions {
+  return isMinuteKey(dateKey) ? { hour: 'numeric', minute: '2-digit' } : { hour: 'numeric' };
+}
+
+function getRelativeOffset(dateKey: DateKey, options?: CurrentPeriodOptions): number {
+  const current = getCurrentDateKey(getDateKeyType(dateKey), options);
+  return diffDateKeys(current, dateKey, options);
+}
+
+function shouldOmitYear(date: Date, omitCurrent: boolean | 'year' | 'month', now: Date): boolean {
   if (!omitCurrent) return false;
-  const now = new Date();
-  return date.getFullYear() === now.getFullYear();
+  return date.getUTCFullYear() === now.getFullYear();
 }
 
-function shouldOmitMonth(date: Date, omitCurrent: boolean | 'year' | 'month'): boolean {
+function shouldOmitMonth(date: Date, omitCurrent: boolean | 'year' | 'month', now: Date): boolean {
   if (omitCurrent !== 'month') return false;
-  const now = new Date();
-  return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth();
+  return date.getUTCFullYear() === now.getFullYear() && date.getUTCMonth() === now.getMonth();
 }
 
 /**
  * Formats a date key or date range into a human-friendly, internationalized string.
  * 
  * This function provides intelligent formatting that:
- * - Automatically handles different date resolutions (day, week, month, year)
+ * - Automatically handles different date resolutions (minute, hour, day, week, month, quarter, year)
  * - Eliminates redundant information in date ranges (e.g., "June 1 – 15, 2024" instead of "June 1, 2024 – June 15, 2024")
  * - Supports omitting current year/month for more concise output
- * - Respects the chosen date style across all formatting scenarios
+ * - Respects the chosen date style and locale across all formatting scenarios
  * 
  * @param start - The date key to format, or the start of a date range
  * @param endOrOptions - Either the end date key for a range, or formatting options for a single date
@@ -74,15 +212,25 @@ function shouldOmitMonth(date: Date, omitCurrent: boolean | 'year' | 'month'): b
  * 
  * @example
  * // Single dates
+ * formatFriendlyDate('2024-01-15T13');     // "January 15, 2024, 1 PM"
+ * formatFriendlyDate('2024-01-15T13:45');  // "January 15, 2024, 1:45 PM"
  * formatFriendlyDate('2024-01-15');  // "January 15, 2024"
  * formatFriendlyDate('2024-01');     // "January 2024"
  * formatFriendlyDate('2024-W03');    // "January 14 – 20, 2024" (expands to week range)
+ * formatFriendlyDate('2024-W03', { weekSystem: 'iso' });  // "January 15 – 21, 2024" (ISO week)
+ * formatFriendlyDate('2024-Q1');     // "Q1 2024"
  * formatFriendlyDate('2024');        // "2024"
+ * formatFriendlyDate('FY2025-Q1');   // "Q1 FY2025"
+ * formatFriendlyDate('FY2025');      // "FY2025"
+ * formatFriendlyDate('R2024-P03');   // "P3 R2024"
  * 
  * @example
  * // Date ranges with smart redundancy elimination
+ * formatFriendlyDate('2024-01-15T13', '2024-01-15T16');  // "January 15, 2024, 1 – 4 PM"
  * formatFriendlyDate('2024-01-15', '2024-01-20');  // "January 15 – 20, 2024"
  * formatFriendlyDate('2024-01', '2024-03');        // "January – March 2024"
+ * formatFriendlyDate('2024-Q1', '2024-Q3');        // "Q1 – Q3 2024"
+ * formatFriendlyDate('FY2025-Q1', 'FY2025-Q3');    // "Q1 – Q3 FY2025"
  * formatFriendlyDate('2024-01-15', '2024-02-20');  // "January 15 – February 20, 2024"
  * 
  * @example
@@ -98,13 +246,32 @@ function shouldOmitMonth(date: Date, omitCurrent: boolean | 'year' | 'month'): b
  * formatFriendlyDate('2024-06-15', { dateStyle: 'short' });   // "6/15/24"
  * 
  * @example
+ * // With a locale
+ * formatFriendlyDate('2024-06-15', { locale: 'de-DE' });              // "15. Juni 2024"
+ * formatFriendlyDate('2024-01', '2024-03', { locale: 'fr-FR' });      // "janvier – mars 2024"
+ * 
+ * @example
+ * // With relative wording near the current period
+ * formatFriendlyDate(today, { relative: true });       // "today"
+ * formatFriendlyDate(lastMonth, { relative: true });   // "last month"
+ * formatFriendlyDate('2020-06-15', { relative: true }); // "June 15, 2020" (outside the threshold)
+ * 
+ * @example
+ * // With a fixed reference date
+ * formatFriendlyDate('2024-06-15', { omitCurrent: true, now: '2024-06' });  // "15"
+ * 
+ * @example
  * // Combining options
  * formatFriendlyDate('2026-06-15', { omitCurrent: 'year', dateStyle: 'medium' });  // "Jun 15"
  */
-export function formatFriendlyDate(date: DateKey, options?: FormatFriendlyDateOptions): string;
-export function formatFriendlyDate(start: DateKey, end: DateKey, options?: FormatFriendlyDateOptions): string;
-export function formatFriendlyDate(start: DateKey, endOrOptions?: DateKey | FormatFriendlyDateOptions, optionsArg?: FormatFriendlyDateOptions): string {
-  let end: DateKey | undefined;
+export function formatFriendlyDate(date: DateKey | FiscalKey | RetailKey, options?: FormatFriendlyDateOptions): string;
+export function formatFriendlyDate(start: DateKey | FiscalKey | RetailKey, end: DateKey | FiscalKey | RetailKey, options?: FormatFriendlyDateOptions): string;
+export function formatFriendlyDate(
+  start: DateKey | FiscalKey | RetailKey,
+  endOrOptions?: DateKey | FiscalKey | RetailKey | FormatFriendlyDateOptions,
+  optionsArg?: FormatFriendlyDateOptions,
+): string {
+  let end: DateKey | FiscalKey | RetailKey | undefined;
   let options: FormatFriendlyDateOptions;
 
   if (typeof endOrOptions === 'object') {
@@ -115,68 +282,166 @@ export function formatFriendlyDate(start: DateKey, endOrOptions?: DateKey | Form
     options = optionsArg || {};
   }
 
-  const { omitCurrent = false, dateStyle = 'long' } = options;
+  const { omitCurrent = false, dateStyle = 'long', locale, relative = false } = options;
   if (!start) return '';
+  const now = resolveNow(options.now, options);
 
   if (end && end !== start) {
+    if (isFiscalQuarterKey(start) && isFiscalQuarterKey(end)) {
+      const startParts = parseFiscalQuarterKey(start);
+      const endParts = parseFiscalQuarterKey(end);
+      if (startParts.year === endParts.year) {
+        return formatRangeText(`Q${startParts.quarter}`, formatFriendlyDate(end, options), locale);
+      }
+    }
+
+    if (isRetailPeriodKey(start) && isRetailPeriodKey(end)) {
+      const startParts = parseRetailPeriodKey(start);
+      const endParts = parseRetailPeriodKey(end);
+      if (startParts.year === endParts.year) {
+        return formatRangeText(`P${startParts.period}`, formatFriendlyDate(end, options), locale);
+      }
+    }
+
+    if (isRetailQuarterKey(start) && isRetailQuarterKey(end)) {
+      const startParts = parseRetailQuarterKey(start);
+      const endParts = parseRetailQuarterKey(end);
+      if (startParts.year === endParts.year) {
+        return formatRangeText(`Q${startParts.quarter}`, formatFriendlyDate(end, options), locale);
+      }
+    }
+
     if (isWeekKey(start) && isWeekKey(end)) {
-      const startDate = startOfWeek(parseDateKey(start));
-      const endDate = endOfWeek(parseDateKey(end));
-      const startDayKey = formatDateAsKey(startDate, 'day');
-      const endDayKey = formatDateAsKey(endDate, 'day');
-      return formatFriendlyDate(startDayKey, endDayKey, options);
+      const { first, last } = getDayBounds({ start, end }, options);
+      return formatFriendlyDate(ordinalToDateKey(first, 'day'), ordinalToDateKey(last, 'day'), options);
+    }
+
+    if ((isHourKey(start) && isHourKey(end)) || (isMinuteKey(start) && isMinuteKey(end))) {
+      const startDate = toDisplayDate(start);
+      const endDate = toDisplayDate(end);
+      if (isValidDate(startDate) && isValidDate(endDate) && convertDateKey(start, 'day') === convertDateKey(end, 'day')) {
+        const effectiveOmit = omitCurrent === true ? 'year' : omitCurrent;
+        const omitYear = shouldOmitYear(startDate, effectiveOmit, now);
+        const formatter = createFormatter({ ...getDateFormatOptions(dateStyle, omitYear), ...getTimeFormatOptions(start) }, locale);
+        return formatter.formatRange(startDate, endDate);
+      }
     }
 
     if (isDayKey(start) && isDayKey(end)) {
-      const startDate = parseDateKey(start);
-      const endDate = parseDateKey(end);
-      if (isValid(startDate) && isValid(endDate)) {
-        const formatter = createFormatter({ dateStyle });
+      const startDate = toDisplayDate(start);
+      const endDate = toDisplayDate(end);
+      if (isValidDate(startDate) && isValidDate(endDate)) {
+        const formatter = createFormatter({ dateStyle }, locale);
         return formatter.formatRange(startDate, endDate);
       }
     }
 
     if (isMonthKey(start) && isMonthKey(end)) {
-      const startDate = parseDateKey(start);
-      const endDate = parseDateKey(end);
-      if (isValid(startDate) && isValid(endDate)) {
+      const startDate = toDisplayDate(start);
+      const endDate = toDisplayDate(end);
+      if (isValidDate(startDate) && isValidDate(endDate)) {
         const monthFormat = getMonthFormat(dateStyle);
-        const formatter = createFormatter({ month: monthFormat, year: 'numeric' });
+        const formatter = createFormatter({ month: monthFormat, year: 'numeric' }, locale);
+        return formatter.formatRange(startDate, endDate);
+      }
+    }
+
+    if (isQuarterKey(start) && isQuarterKey(end)) {
+      const startParts = parseQuarterKey(start);
+      const endParts = parseQuarterKey(end);
+      const endDate = toDisplayDate(end);
+      if (startParts.year === endParts.year && isValidDate(endDate)) {
+        const effectiveOmit = omitCurrent === true ? 'year' : omitCurrent;
+        const omitYear = shouldOmitYear(endDate, effectiveOmit, now);
+        return formatRangeText(`Q${startParts.quarter}`, formatQuarter(endParts.quarter, endDate, omitYear, locale), locale);
+      }
+    }
+
+    if (isYearKey(start) && isYearKey(end)) {
+      const startDate = toDisplayDate(start);
+      const endDate = toDisplayDate(end);
+      if (isValidDate(startDate) && isValidDate(endDate)) {
+        const formatter = createFormatter({ year: 'numeric' }, locale);
         return formatter.formatRange(startDate, endDate);
       }
     }
 
-    return `${formatFriendlyDate(start, options)} – ${formatFriendlyDate(end, options)}`;
+    return formatRangeText(formatFriendlyDate(start, options), formatFriendlyDate(end, options), locale);
+  }
+
+  // Fiscal and retail periods depend on their calendar, so they are labeled rather than formatted as dates
+  if (isFiscalQuarterKey(start)) {
+    const { year, quarter } = parseFiscalQuarterKey(start);
+    return `Q${quarter} FY${year}`;
+  }
+  if (isFiscalYearKey(start)) {
+    return start;
+  }
+  if (isRetailPeriodKey(start)) {
+    const { year, period } = parseRetailPeriodKey(start);
+    return `P${period} R${year}`;
+  }
+  if (isRetailQuarterKey(start)) {
+    const { year, quarter } = parseRetailQuarterKey(start);
+    return `Q${quarter} R${year}`;
+  }
+  if (isRetailYearKey(start)) {
+    return start;
+  }
+
+  if (relative !== false) {
+    const threshold = relative === true ? 1 : relative;
+    if (Math.abs(getRelativeOffset(start, options)) <= threshold) {
+      return formatRelativeDateKey(start, options);
+    }
   }
 
   if (isWeekKey(start)) {
-    const weekStart = startOfWeek(parseDateKey(start));
-    const weekEnd = endOfWeek(parseDateKey(start));
-    const startDayKey = formatDateAsKey(weekStart, 'day');
-    const endDayKey = formatDateAsKey(weekEnd, 'day');
-    return formatFriendlyDate(startDayKey, endDayKey, options);
+    // The week's days, not its instants, as a time zone would move those into other days
+    const { first, last } = getDayBounds({ start, end: start }, options);
+    return formatFriendlyDate(ordinalToDateKey(first, 'day'), ordinalToDateKey(last, 'day'), options);
+  }
+
+  if (isHourKey(start) || isMinuteKey(start)) {
+    const parsed = toDisplayDate(start);
+    if (isValidDate(parsed)) {
+      const effectiveOmit = omitCurrent === true ? 'year' : omitCurrent;
+      const omitYear = shouldOmitYear(parsed, effectiveOmit, now);
+      const dateText = createFormatter(getDateFormatOptions(dateStyle, omitYear), locale).format(parsed);
+      const timeText = createFormatter(getTimeFormatOptions(start), locale).format(parsed);
+      return dateText + getDateTimeSeparator(locale) + timeText;
+    }
   }
 
   if (isMonthKey(start)) {
-    const parsed = parseDateKey(start);
-    if (isValid(parsed)) {
+    const parsed = toDisplayDate(start);
+    if (isValidDate(parsed)) {
       const effectiveOmit = omitCurrent === true ? 'year' : omitCurrent;
-      const omitYear = shouldOmitYear(parsed, effectiveOmit);
+      const omitYear = shouldOmitYear(parsed, effectiveOmit, now);
       const monthFormat = getMonthFormat(dateStyle);
       const formatterOptions = omitYear
         ? { month: monthFormat } as Intl.DateTimeFormatOptions
         : { month: monthFormat, year: 'numeric' } as Intl.DateTimeFormatOptions;
-      const formatter = createFormatter(formatterOptions);
+      const formatter = createFormatter(formatterOptions, locale);
       return formatter.format(parsed);
     }
   }
 
+  if (isQuarterKey(start)) {
+    const parsed = toDisplayDate(start);
+    if (isValidDate(parsed)) {
+      const effectiveOmit = omitCurrent === true ? 'year' : omitCurrent;
+      const omitYear = shouldOmitYear(parsed, effectiveOmit, now);
+      return formatQuarter(parseQuarterKey(start).quarter, parsed, omitYear, locale);
+    }
+  }
+
   if (isDayKey(start)) {
-    const parsed = parseDateKey(start);
-    if (isValid(parsed)) {
+    const parsed = toDisplayDate(start);
+    if (isValidDate(parsed)) {
       const effectiveOmit = omitCurrent ? 'month' : omitCurrent;
-      const omitMonth = shouldOmitMonth(parsed, effectiveOmit);
-      const omitYear = shouldOmitYear(parsed, effectiveOmit);
+      const omitMonth = shouldOmitMonth(parsed, effectiveOmit, now);
+      const omitYear = shouldOmitYear(parsed, effectiveOmit, now);
 
       let formatterOptions: Intl.DateTimeFormatOptions;
       if (omitMonth) {
@@ -187,18 +452,44 @@ export function formatFriendlyDate(start: DateKey, endOrOptions?: DateKey | Form
         formatterOptions = { dateStyle };
       }
 
-      const formatter = createFormatter(formatterOptions);
+      const formatter = createFormatter(formatterOptions, locale);
       return formatter.format(parsed);
     }
   }
 
   if (isYearKey(start)) {
-    const parsed = parseDateKey(start);
-    if (isValid(parsed)) {
-      const formatter = createFormatter({ year: 'numeric' });
+    const parsed = toDisplayDate(start);
+    if (isValidDate(parsed)) {
+      const formatter = createFormatter({ year: 'numeric' }, locale);
       return formatter.format(parsed);
     }
   }
 
   return start;
 }
+
+/**
+ * Formats a date key relative to the current period, using `Intl.RelativeTimeFormat`.
+ * 
+ * The wording follows the key's resolution: day keys are described in days, week keys
+ * in weeks, month keys in months, and so on.
+ * 
+ * @param dateKey - The date key to format
+ * @param options - Optional reference date, time zone, locale, numeric style, and week numbering options
+ * @returns A relative phrase such as "yesterday", "this week", or "in 3 months"
+ * 
+ * @example
+ * // Assuming today is June 17, 2026
+ * formatRelativeDateKey('2026-06-16');   // "yesterday"
+ * formatRelativeDateKey('2026-W25');     // "this week"
+ * formatRelativeDateKey('2026-05');      // "last month"
+ * formatRelativeDateKey('2026-06-14');   // "3 days ago"
+ * formatRelativeDateKey('2026-06-16', { numeric: 'always' });  // "1 day ago"
+ * formatRelativeDateKey('2027', { locale: 'fr-FR' });           // "l’année prochaine"
+ */
+export function formatRelativeDateKey(dateKey: DateKey, options: FormatRelativeDateKeyOptions = {}): string {
+  const { locale = 'en-US', numeric = 'auto' } = options;
+  const offset = getRelativeOffset(dateKey, options);
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric });
+  return formatter.format(offset, getDateKeyType(dateKey));
+}
@@ -0,0 +1,131 @@
+import type { DayKey, MonthKey, WeekKey, YearKey } from './types';
+import { toMonthKey } from './builders';
+import { convertDateKey, parseMonthKey, parseYearKey, resolveWeekOptions } from './converters';
+import { ordinalToDateKey } from './ordinals';
+import { daysFromCivil, getDaysInMonth, startOfWeekDays } from './calendar';
+import { getCurrentDateKey } from './clock';
+import type { CurrentPeriodOptions } from './clock';
+
+export interface CalendarGridOptions extends CurrentPeriodOptions {
+  /**
+   * The locale used for the weekday header labels.
+   *
+   * @default 'en-US'
+   */
+  locale?: string | string[];
+  /**
+   * The length of the weekday header labels, as in `Intl.DateTimeFormat`'s `weekday` option.
+   *
+   * @default 'short'
+   */
+  weekdayFormat?: 'long' | 'short' | 'narrow';
+  /**
+   * Whether every month has 6 rows, so grids keep the same height. When false, a month
+   * only has the rows that contain its days.
+   *
+   * @default true
+   */
+  fixedWeeks?: boolean;
+}
+
+export interface CalendarGridDay {
+  key: DayKey;
+  /** Whether the day is in the grid's month, rather than padding from a neighbouring month */
+  inMonth: boolean;
+  isToday: boolean;
+}
+
+export interface CalendarGridWeek {
+  /** The week key of the row, matching `dateToWeekKey` for each of its days */
+  week: WeekKey;
+  days: CalendarGridDay[];
+}
+
+export interface MonthGrid {
+  month: MonthKey;
+  /** The weekday header labels, in the order of each row's days */
+  weekdays: string[];
+  weeks: CalendarGridWeek[];
+}
+
+export interface YearGrid {
+  year: YearKey;
+  /** The weekday header labels, in the order of each row's days */
+  weekdays: string[];
+  months: MonthGrid[];
+}
+
+/**
+ * Formats the weekday header labels, starting from the first day of the week.
+ */
+function getWeekdayLabels(options: CalendarGridOptions): string[] {
+  const { weekStartsOn } = resolveWeekOptions(options);
+  const formatter = new Intl.DateTimeFormat(options.locale ?? 'en-US', { weekday: options.weekdayFormat ?? 'short', timeZone: 'UTC' });
+  // January 7, 2024 was a Sunday
+  return Array.from({ length: 7 }, (_, index) => formatter.format(Date.UTC(2024, 0, 7 + ((weekStartsOn + index) % 7))));
+}
+
+function buildWeeks(monthKey: MonthKey, today: DayKey, options: CalendarGridOptions): CalendarGridWeek[] {
+  const weekOptions = resolveWeekOptions(options);
+  const { year, month } = parseMonthKey(monthKey);
+  const firstDay = daysFromCivil(year, month, 1);
+  const nextMonthFirstDay = firstDay + getDaysInMonth(year, month);
+  const gridStart = startOfWeekDays(firstDay, weekOptions.weekStartsOn);
+  // No month spans more than 6 weeks, however its first day falls
+  const rowCount = (options.fixedWeeks ?? true) ? 6 : Math.ceil((nextMonthFirstDay - gridStart) / 7);
+
+  return Array.from({ length: rowCount }, (_, row) => {
+    const days = Array.from({ length: 7 }, (_, column): CalendarGridDay => {
+      const day = gridStart + row * 7 + column;
+      const key = ordinalToDateKey(day, 'day');
+      return { key, inMonth: day >= firstDay && day < nextMonthFirstDay, isToday: key === today };
+    });
+    return { week: convertDateKey(days[0].key, 'week', weekOptions), days };
+  });
+}
+
+/**
+ * Builds the grid of a calendar month view: rows of weeks, each with 7 days.
+ *
+ * Rows start on the configured first day of the week and include days from the neighbouring
+ * months, so every row is full. Each row is labelled with its week key, using the same week
+ * numbering as `dateToWeekKey`.
+ *
+ * @param monthKey - The month to build the grid for
+ * @param options - Optional weekday label locale and format, row count, week numbering options, and the reference date for `isToday`
+ * @returns The month's weekday header labels and week rows
+ *
+ * @example
+ * const grid = getMonthGrid('2024-02');
+ * grid.weekdays;             // ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+ * grid.weeks[0].week;        // "2024-W05"
+ * grid.weeks[0].days[0];     // { key: "2024-01-28", inMonth: false, isToday: false }
+ * getMonthGrid('2024-02', { weekSystem: 'iso', locale: 'de-DE' }).weekdays;  // ["Mo", "Di", "Mi", "Do", "Fr", "Sa", "So"]
+ */
+export function getMonthGrid(monthKey: MonthKey, options: CalendarGridOptions = {}): MonthGrid {
+  const today = getCurrentDateKey('day', options);
+  return { month: monthKey, weekdays: getWeekdayLabels(options), weeks: buildWeeks(monthKey, today, options) };
+}
+
+/**
+ * Builds the grids of all 12 months of a year, for a calendar year view.
+ *
+ * @param yearKey - The year to build the grids for
+ * @param options - The same options as `getMonthGrid`
+ * @returns The weekday header labels and the grid of each month, from January to December
+ *
+ * @example
+ * const grid = getYearGrid('2024');
+ * grid.months.length;       // 12
+ * grid.months[1].month;     // "2024-02"
+ */
+export function getYearGrid(yearKey: YearKey, options: CalendarGridOptions = {}): YearGrid {
+  const today = getCurrentDateKey('day', options);
+  const weekdays = getWeekdayLabels(options);
+  const year = parseYearKey(yearKey);
+  const months = Array.from({ length: 12 }, (_, index): MonthGrid => {
+    const month = toMonthKey(year, index + 1);
+    return { month, weekdays, weeks: buildWeeks(month, today, options) };
+  });
+  return { year: yearKey, weekdays, months };
+}
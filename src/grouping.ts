@@ -0,0 +1,120 @@
+import type { DateKey, DateKeyOptions, DateKeyType, DayKey, HourKey, MinuteKey, MonthKey, QuarterKey, WeekKey, YearKey } from './types';
+import { dateToDayKey, dateToHourKey, dateToMinuteKey, formatCalendarFieldsAsKey, formatDateAsKey, resolveWeekOptions } from './converters';
+import { getTimeZoneOffset } from './zones';
+import { eachDateKey } from './iteration';
+
+const HOUR = 60 * 60 * 1000;
+
+export interface GroupByDateKeyOptions extends DateKeyOptions {
+  /**
+   * The first and last keys (inclusive) of a range whose buckets are always present,
+   * even when no items fall in them. Items outside the range are still grouped.
+   */
+  fill?: [DateKey, DateKey];
+}
+
+/**
+ * Groups items into buckets by the date key of their date at the chosen resolution.
+ *
+ * Buckets are keyed with `formatDateAsKey`, so they follow the same week and time zone
+ * rules as the rest of the library. Keys are looked up once per local day (or hour, or minute)
+ * rather than computed per item, and a time zone's offset is resolved once per UTC hour, which
+ * keeps grouping large arrays fast. Only items in an hour that a transition falls in are read
+ * through the time zone one by one.
+ *
+ * @param items - The items to group
+ * @param getDate - Reads the date of an item, as a Date or a timestamp in milliseconds
+ * @param type - The resolution of the buckets
+ * @param options - Optional buckets to fill, time zone, and week numbering options
+ * @returns A Map from date key to the items in that bucket, in chronological order
+ *
+ * @example
+ * groupByDateKey(orders, (order) => order.createdAt, 'day');
+ * // Map { "2024-01-15" => [...], "2024-01-17" => [...] }
+ * groupByDateKey(orders, (order) => order.createdAt, 'day', { fill: ['2024-01-15', '2024-01-17'] });
+ * // Map { "2024-01-15" => [...], "2024-01-16" => [], "2024-01-17" => [...] }
+ * groupByDateKey(events, (event) => event.timestamp, 'week', { weekSystem: 'iso' });
+ * // Map { "2024-W03" => [...], ... }
+ */
+export function groupByDateKey<T>(items: Iterable<T>, getDate: (item: T) => Date | number, type: 'minute', options?: GroupByDateKeyOptions): Map<MinuteKey, T[]>;
+export function groupByDateKey<T>(items: Iterable<T>, getDate: (item: T) => Date | number, type: 'hour', options?: GroupByDateKeyOptions): Map<HourKey, T[]>;
+export function groupByDateKey<T>(items: Iterable<T>, getDate: (item: T) => Date | number, type: 'day', options?: GroupByDateKeyOptions): Map<DayKey, T[]>;
+export function groupByDateKey<T>(items: Iterable<T>, getDate: (item: T) => Date | number, type: 'week', options?: GroupByDateKeyOptions): Map<WeekKey, T[]>;
+export function groupByDateKey<T>(items: Iterable<T>, getDate: (item: T) => Date | number, type: 'month', options?: GroupByDateKeyOptions): Map<MonthKey, T[]>;
+export function groupByDateKey<T>(items: Iterable<T>, getDate: (item: T) => Date | number, type: 'quarter', options?: GroupByDateKeyOptions): Map<QuarterKey, T[]>;
+export function groupByDateKey<T>(items: Iterable<T>, getDate: (item: T) => Date | number, type: 'year', options?: GroupByDateKeyOptions): Map<YearKey, T[]>;
+export function groupByDateKey<T>(items: Iterable<T>, getDate: (item: T) => Date | number, type: DateKeyType, options?: GroupByDateKeyOptions): Map<DateKey, T[]>;
+export function groupByDateKey<T>(
+  items: Iterable<T>,
+  getDate: (item: T) => Date | number,
+  type: DateKeyType,
+  options: GroupByDateKeyOptions = {},
+): Map<DateKey, T[]> {
+  const { fill, timeZone } = options;
+  const keyOptions: DateKeyOptions = { ...resolveWeekOptions(options), timeZone };
+  // Every instant in the same calendar day (or hour, or minute) shares a bucket, so its key is cheap to look up
+  const toCacheKey = type === 'minute' ? dateToMinuteKey : type === 'hour' ? dateToHourKey : dateToDayKey;
+  const keyCache = new Map<string, DateKey>();
+  // Zone offsets by UTC hour, or null for hours a transition falls in
+  const offsetCache = new Map<number, number | null>();
+  const groups = new Map<DateKey, T[]>();
+
+  const getZonedKey = (date: Date, timeZone: string): DateKey => {
+    const hour = Math.floor(date.getTime() / HOUR);
+    let offset = offsetCache.get(hour);
+    if (offset === undefined) {
+      offset = isNaN(hour) ? null : getTimeZoneOffset(new Date(hour * HOUR), timeZone);
+      if (offset !== null && getTimeZoneOffset(new Date((hour + 1) * HOUR - 1), timeZone) !== offset) offset = null;
+      offsetCache.set(hour, offset);
+    }
+    if (offset === null) {
+      return formatDateAsKey(date, type, keyOptions);
+    }
+    // The wall clock is the instant moved by the offset, read in UTC
+    const wallClock = new Date(date.getTime() + offset);
+    return formatCalendarFieldsAsKey({
+      year: wallClock.getUTCFullYear(),
+      month: wallClock.getUTCMonth() + 1,
+      day: wallClock.getUTCDate(),
+      hour: wallClock.getUTCHours(),
+      minute: wallClock.getUTCMinutes(),
+    }, type, keyOptions);
+  };
+
+  for (const item of items) {
+    const value = getDate(item);
+    const date = typeof value === 'number' ? new Date(value) : value;
+    let key: DateKey;
+    if (timeZone) {
+      key = getZonedKey(date, timeZone);
+    } else {
+      const cacheKey = toCacheKey(date);
+      let cached = keyCache.get(cacheKey);
+      if (cached === undefined) {
+        cached = formatDateAsKey(date, type, keyOptions);
+        keyCache.set(cacheKey, cached);
+      }
+      key = cached;
+    }
+
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+
+  if (fill) {
+    for (const key of eachDateKey(fill[0], fill[1], { ...options, type })) {
+      if (!groups.has(key)) groups.set(key, []);
+    }
+  }
+
+  // Keys of a single resolution sort chronologically as strings
+  const sorted = new Map<DateKey, T[]>();
+  for (const key of [...groups.keys()].sort()) {
+    sorted.set(key, groups.get(key)!);
+  }
+  return sorted;
+}
@@ -1,57 +1,192 @@
-import type { DateKey, DayKey, MonthKey, WeekKey, YearKey } from './types';
+import type {
+  DayKey,
+  FiscalQuarterKey,
+  FiscalYearKey,
+  HourKey,
+  MinuteKey,
+  MonthKey,
+  QuarterKey,
+  RetailPeriodKey,
+  RetailQuarterKey,
+  RetailYearKey,
+  WeekKey,
+  YearKey,
+} from './types';
 
 /**
- * Type guard to check if a date key is a DayKey.
+ * Type guard to check if a value is a MinuteKey.
  * 
- * @param key - The date key to check
+ * Only the shape of the key is checked. Use `isValidDateKey` to also check calendar validity.
+ * 
+ * @param key - The value to check
+ * @returns True if the key is a MinuteKey (format: "YYYY-MM-DDTHH:mm")
+ * 
+ * @example
+ * isMinuteKey('2024-01-15T13:45');  // true
+ * isMinuteKey('2024-01-15T13');     // false
+ */
+export function isMinuteKey(key: unknown): key is MinuteKey {
+  return typeof key === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(key);
+}
+
+/**
+ * Type guard to check if a value is an HourKey.
+ * 
+ * Only the shape of the key is checked. Use `isValidDateKey` to also check calendar validity.
+ * 
+ * @param key - The value to check
+ * @returns True if the key is an HourKey (format: "YYYY-MM-DDTHH")
+ * 
+ * @example
+ * isHourKey('2024-01-15T13');  // true
+ * isHourKey('2024-01-15');     // false
+ */
+export function isHourKey(key: unknown): key is HourKey {
+  return typeof key === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}$/.test(key);
+}
+
+/**
+ * Type guard to check if a value is a DayKey.
+ * 
+ * Only the shape of the key is checked. Use `isValidDateKey` to also check calendar validity.
+ * 
+ * @param key - The value to check
  * @returns True if the key is a DayKey (format: "YYYY-MM-DD")
  * 
  * @example
  * isDayKey('2024-01-15');  // true
  * isDayKey('2024-01');     // false
  */
-export function isDayKey(key: DateKey): key is DayKey {
-  return /^\d{4}-\d{2}-\d{2}$/.test(key);
+export function isDayKey(key: unknown): key is DayKey {
+  return typeof key === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(key);
 }
 
 /**
- * Type guard to check if a date key is a WeekKey.
+ * Type guard to check if a value is a WeekKey.
+ * 
+ * Only the shape of the key is checked. Use `isValidDateKey` to also check calendar validity.
  * 
- * @param key - The date key to check
+ * @param key - The value to check
  * @returns True if the key is a WeekKey (format: "YYYY-Www")
  * 
  * @example
  * isWeekKey('2024-W03');  // true
  * isWeekKey('2024-01');   // false
  */
-export function isWeekKey(key: DateKey): key is WeekKey {
-  return /^\d{4}-W\d{2}$/.test(key);
+export function isWeekKey(key: unknown): key is WeekKey {
+  return typeof key === 'string' && /^\d{4}-W\d{2}$/.test(key);
 }
 
 /**
- * Type guard to check if a date key is a MonthKey.
+ * Type guard to check if a value is a MonthKey.
  * 
- * @param key - The date key to check
+ * Only the shape of the key is checked. Use `isValidDateKey` to also check calendar validity.
+ * 
+ * @param key - The value to check
  * @returns True if the key is a MonthKey (format: "YYYY-MM")
  * 
  * @example
  * isMonthKey('2024-01');     // true
  * isMonthKey('2024-01-15');  // false
  */
-export function isMonthKey(key: DateKey): key is MonthKey {
-  return /^\d{4}-\d{2}$/.test(key);
+export function isMonthKey(key: unknown): key is MonthKey {
+  return typeof key === 'string' && /^\d{4}-\d{2}$/.test(key);
 }
 
 /**
- * Type guard to check if a date key is a YearKey.
+ * Type guard to check if a value is a QuarterKey.
+ * 
+ * @param key - The value to check
+ * @returns True if the key is a QuarterKey (format: "YYYY-Qq")
  * 
- * @param key - The date key to check
+ * @example
+ * isQuarterKey('2024-Q1');  // true
+ * isQuarterKey('2024-01');  // false
+ */
+export function isQuarterKey(key: unknown): key is QuarterKey {
+  return typeof key === 'string' && /^\d{4}-Q[1-4]$/.test(key);
+}
+
+/**
+ * Type guard to check if a value is a YearKey.
+ * 
+ * @param key - The value to check
  * @returns True if the key is a YearKey (format: "YYYY")
  * 
  * @example
  * isYearKey('2024');     // true
  * isYearKey('2024-01');  // false
  */
-export function isYearKey(key: DateKey): key is YearKey {
-  return /^\d{4}$/.test(key);
+export function isYearKey(key: unknown): key is YearKey {
+  return typeof key === 'string' && /^\d{4}$/.test(key);
+}
+
+/**
+ * Type guard to check if a value is a FiscalQuarterKey.
+ * 
+ * @param key - The value to check
+ * @returns True if the key is a FiscalQuarterKey (format: "FYYYYY-Qq", e.g., "FY2025-Q1")
+ * 
+ * @example
+ * isFiscalQuarterKey('FY2025-Q1');  // true
+ * isFiscalQuarterKey('2025-Q1');    // false
+ */
+export function isFiscalQuarterKey(key: unknown): key is FiscalQuarterKey {
+  return typeof key === 'string' && /^FY\d{4}-Q[1-4]$/.test(key);
+}
+
+/**
+ * Type guard to check if a value is a FiscalYearKey.
+ * 
+ * @param key - The value to check
+ * @returns True if the key is a FiscalYearKey (format: "FYYYYY", e.g., "FY2025")
+ * 
+ * @example
+ * isFiscalYearKey('FY2025');  // true
+ * isFiscalYearKey('2025');    // false
+ */
+export function isFiscalYearKey(key: unknown): key is FiscalYearKey {
+  return typeof key === 'string' && /^FY\d{4}$/.test(key);
+}
+
+/**
+ * Type guard to check if a value is a RetailPeriodKey.
+ * 
+ * @param key - The value to check
+ * @returns True if the key is a RetailPeriodKey (format: "RYYYY-Ppp", e.g., "R2024-P03")
+ * 
+ * @example
+ * isRetailPeriodKey('R2024-P03');  // true
+ * isRetailPeriodKey('R2024-P13');  // false
+ */
+export function isRetailPeriodKey(key: unknown): key is RetailPeriodKey {
+  return typeof key === 'string' && /^R\d{4}-P(0[1-9]|1[0-2])$/.test(key);
+}
+
+/**
+ * Type guard to check if a value is a RetailQuarterKey.
+ * 
+ * @param key - The value to check
+ * @returns True if the key is a RetailQuarterKey (format: "RYYYY-Qq", e.g., "R2024-Q1")
+ * 
+ * @example
+ * isRetailQuarterKey('R2024-Q1');  // true
+ * isRetailQuarterKey('2024-Q1');   // false
+ */
+export function isRetailQuarterKey(key: unknown): key is RetailQuarterKey {
+  return typeof key === 'string' && /^R\d{4}-Q[1-4]$/.test(key);
+}
+
+/**
+ * Type guard to check if a value is a RetailYearKey.
+ * 
+ * @param key - The value to check
+ * @returns True if the key is a RetailYearKey (format: "RYYYY", e.g., "R2024")
+ * 
+ * @example
+ * isRetailYearKey('R2024');  // true
+ * isRetailYearKey('2024');   // false
+ */
+export function isRetailYearKey(key: unknown): key is RetailYearKey {
+  return typeof key === 'string' && /^R\d{4}$/.test(key);
 }
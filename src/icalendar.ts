@@ -0,0 +1,248 @@
+import type { DateKey, DateKeyRange, DayKey, WeekOptions } from './types';
+import { toDayKey } from './builders';
+import { isValidDayKey } from './validation';
+import { dateKeyToOrdinal, ordinalToDateKey } from './ordinals';
+import { getDayBounds } from './periods';
+import { resolveNow } from './clock';
+
+export interface ICalendarEvent {
+  /** The period of the event, expanded to the days it covers */
+  key: DateKey | DateKeyRange;
+  summary: string;
+  description?: string;
+  location?: string;
+  /** A globally unique identifier, so calendar apps can update the event on re-import */
+  uid?: string;
+}
+
+/**
+ * An all-day event read from iCalendar text, with the inclusive range of days it covers.
+ */
+export interface ParsedICalendarEvent {
+  key: { start: DayKey; end: DayKey };
+  summary: string;
+  description?: string;
+  location?: string;
+  uid?: string;
+}
+
+export interface ICalendarOptions extends WeekOptions {
+  /**
+   * The PRODID of the calendar, identifying the product that created it.
+   *
+   * @default '-//friendly-dates//EN'
+   */
+  productId?: string;
+  /** The display name of the calendar, written as X-WR-CALNAME */
+  calendarName?: string;
+  /**
+   * The time the events are exported at, written as each event's DTSTAMP.
+   *
+   * @default The library-wide clock (see `setClock`)
+   */
+  now?: Date | DateKey;
+}
+
+// RFC 5545 lines are folded at 75 octets, not characters
+const MAX_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Splits a content line into lines of at most 75 octets, continuing each with a space.
+ */
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    if (octets + charOctets > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += charOctets;
+  }
+  lines.push(current);
+  return lines.join('\r\n');
+}
+
+function formatDateValue(day: number): string {
+  return ordinalToDateKey(day, 'day').replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Exports date keys and ranges as all-day events in an iCalendar (RFC 5545) file.
+ *
+ * Each event covers every day of its period, so week, month, quarter, and year keys span
+ * their days, and hour and minute keys span the day they fall on. Following RFC 5545, the
+ * DTEND of an all-day event is exclusive: it is the day after the event's last day.
+ *
+ * @param events - The events to export, each with a date key or range and a summary
+ * @param options - Optional product ID, calendar name, export time, and week numbering options
+ * @returns The VCALENDAR text, with CRLF line endings
+ *
+ * @example
+ * toICalendar([{ key: '2024-W03', summary: 'Sprint 12' }], { now: new Date('2024-01-01T00:00:00Z') });
+ * // BEGIN:VCALENDAR
+ * // VERSION:2.0
+ * // PRODID:-//friendly-dates//EN
+ * // CALSCALE:GREGORIAN
+ * // BEGIN:VEVENT
+ * // UID:20240114-20240121-0@friendly-dates
+ * // DTSTAMP:20240101T000000Z
+ * // DTSTART;VALUE=DATE:20240114
+ * // DTEND;VALUE=DATE:20240121
+ * // SUMMARY:Sprint 12
+ * // END:VEVENT
+ * // END:VCALENDAR
+ */
+export function toICalendar(events: readonly ICalendarEvent[], options: ICalendarOptions = {}): string {
+  const timestamp = formatTimestamp(resolveNow(options.now, options));
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${options.productId ?? '-//friendly-dates//EN'}`, 'CALSCALE:GREGORIAN'];
+  if (options.calendarName !== undefined) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+
+  events.forEach((event, index) => {
+    const { first, last } = getDayBounds(typeof event.key === 'string' ? { start: event.key, end: event.key } : event.key, options);
+    const start = formatDateValue(first);
+    const end = formatDateValue(last + 1);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${escapeText(event.uid ?? `${start}-${end}-${index}@friendly-dates`)}`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART;VALUE=DATE:${start}`,
+      `DTEND;VALUE=DATE:${end}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description !== undefined) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location !== undefined) lines.push(`LOCATION:${escapeText(event.location)}`);
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+interface ContentLine {
+  name: string;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | undefined {
+  // The value starts after the first colon outside a quoted parameter value
+  let inQuotes = false;
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    else if (line[index] === ':' && !inQuotes) {
+      const name = line.slice(0, index).split(';')[0];
+      return { name: name.toUpperCase(), value: line.slice(index + 1) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads a DATE value, returning undefined for date-times and invalid dates.
+ */
+function parseDateValue(line: ContentLine): number | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(line.value.trim());
+  if (!match) return undefined;
+  const dayKey = toDayKey(Number(match[1]), Number(match[2]), Number(match[3]));
+  return isValidDayKey(dayKey) ? dateKeyToOrdinal(dayKey) : undefined;
+}
+
+/**
+ * Reads a DURATION made of whole days or weeks (e.g. "P3D" or "P2W") as a number of days.
+ */
+function parseDurationDays(value: string): number | undefined {
+  const match = /^\+?P(?:(\d+)W|(\d+)D)$/.exec(value.trim());
+  if (!match) return undefined;
+  return match[1] !== undefined ? Number(match[1]) * 7 : Number(match[2]);
+}
+
+/**
+ * Reads the all-day events of an iCalendar (RFC 5545) file back into ranges of day keys.
+ *
+ * Events are all-day when their DTSTART is a DATE value. Timed events are skipped. The
+ * event's days run up to the day before its exclusive DTEND, or for its DURATION in days
+ * or weeks; without either, the event lasts one day.
+ *
+ * @param text - The iCalendar text, with CRLF or LF line endings
+ * @returns The all-day events in the order they appear, each with an inclusive range of day keys
+ *
+ * @example
+ * parseICalendar(toICalendar([{ key: '2024-W03', summary: 'Sprint 12' }]));
+ * // [{ key: { start: "2024-01-14", end: "2024-01-20" }, summary: "Sprint 12", uid: "20240114-20240121-0@friendly-dates" }]
+ */
+export function parseICalendar(text: string): ParsedICalendarEvent[] {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => line !== undefined);
+
+  const events: ParsedICalendarEvent[] = [];
+  let properties: Map<string, ContentLine> | undefined;
+  // Nested components, such as VALARM, have their own properties that don't describe the event
+  let nestedDepth = 0;
+  for (const line of lines) {
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT') properties = new Map();
+      else if (properties) nestedDepth++;
+    } else if (line.name === 'END') {
+      if (line.value.toUpperCase() !== 'VEVENT') {
+        if (properties && nestedDepth > 0) nestedDepth--;
+        continue;
+      }
+      const event = properties && toParsedEvent(properties);
+      if (event) events.push(event);
+      properties = undefined;
+    } else if (properties && nestedDepth === 0 && !properties.has(line.name)) {
+      properties.set(line.name, line);
+    }
+  }
+  return events;
+}
+
+function toParsedEvent(properties: Map<string, ContentLine>): ParsedICalendarEvent | undefined {
+  const dtstart = properties.get('DTSTART');
+  const first = dtstart && parseDateValue(dtstart);
+  if (first === undefined) return undefined;
+
+  const dtend = properties.get('DTEND');
+  const duration = properties.get('DURATION');
+  let endExclusive: number | undefined = first + 1;
+  if (dtend) {
+    endExclusive = parseDateValue(dtend);
+  } else if (duration) {
+    const days = parseDurationDays(duration.value);
+    endExclusive = days === undefined ? undefined : first + days;
+  }
+  if (endExclusive === undefined) return undefined;
+
+  const event: ParsedICalendarEvent = {
+    key: { start: ordinalToDateKey(first, 'day'), end: ordinalToDateKey(Math.max(first, endExclusive - 1), 'day') },
+    summary: unescapeText(properties.get('SUMMARY')?.value ?? ''),
+  };
+  for (const [name, field] of [['DESCRIPTION', 'description'], ['LOCATION', 'location'], ['UID', 'uid']] as const) {
+    const property = properties.get(name);
+    if (property) event[field] = unescapeText(property.value);
+  }
+  return event;
+}
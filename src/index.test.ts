@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, expectTypeOf, afterEach } from 'vitest';
 import {
   isDayKey,
   isWeekKey,
@@ -21,7 +21,120 @@ import {
   formatFriendlyDate,
   isCurrentDay,
   formatDateAsKey,
+  isQuarterKey,
+  toQuarterKey,
+  dateToQuarterKey,
+  parseQuarterKey,
+  getDateKeyType,
+  isCurrentPeriod,
+  isCurrentWeek,
+  addToDateKey,
+  subtractFromDateKey,
+  diffDateKeys,
+  eachDateKey,
+  iterateDateKeys,
+  getDateKeyInterval,
+  getChildKeys,
+  getParentKey,
+  formatRelativeDateKey,
+  isCurrentMonth,
+  isCurrentYear,
+  setClock,
+  getNow,
+  getCurrentDateKey,
+  isValidDateKey,
+  isValidDayKey,
+  isValidMonthKey,
+  isValidWeekKey,
+  assertDateKey,
+  tryParseDateKey,
+  DateKeyError,
+  isHourKey,
+  isMinuteKey,
+  toHourKey,
+  toMinuteKey,
+  dateToHourKey,
+  dateToMinuteKey,
+  parseHourKey,
+  parseMinuteKey,
+  isCurrentHour,
+  isFiscalYearKey,
+  isFiscalQuarterKey,
+  toFiscalYearKey,
+  toFiscalQuarterKey,
+  dateToFiscalYearKey,
+  dateToFiscalQuarterKey,
+  parseFiscalKey,
+  parseFiscalQuarterKey,
+  convertToFiscalKey,
+  convertFiscalKey,
+  getFiscalMonthKeys,
+  getFiscalKeyInterval,
+  isRetailPeriodKey,
+  isRetailQuarterKey,
+  isRetailYearKey,
+  toRetailPeriodKey,
+  dateToRetailPeriodKey,
+  dateToRetailQuarterKey,
+  dateToRetailYearKey,
+  parseRetailKey,
+  parseRetailPeriodKey,
+  convertToRetailKey,
+  convertRetailKey,
+  getRetailWeekKeys,
+  getRetailKeyInterval,
+  groupByDateKey,
+  rollupDateKeyed,
+  dateKeyRangesOverlap,
+  dateKeyRangeContains,
+  normalizeDateKeyRanges,
+  unionDateKeyRanges,
+  intersectDateKeyRanges,
+  subtractDateKeyRanges,
+  compareDateKeys,
+  sortDateKeys,
+  minDateKey,
+  maxDateKey,
+  isBefore,
+  isAfter,
+  isSameOrContains,
+  dateKeyToOrdinal,
+  ordinalToDateKey,
+  fromPlainDate,
+  fromPlainYearMonth,
+  fromZonedDateTime,
+  toPlainDate,
+  toPlainYearMonth,
+  dateKeyToZonedRange,
+  getMonthGrid,
+  getYearGrid,
+  isBusinessDay,
+  addBusinessDays,
+  countBusinessDays,
+  nextBusinessDay,
+  iterateRecurrence,
+  parseRecurrenceRule,
+  toICalendar,
+  parseICalendar,
+  parseFriendlyDate,
 } from './index';
+import type { DateKey, DateKeyType, DayKey, PlainDateLike, PlainYearMonthLike, ZonedDateTimeLike, FiscalQuarterKey, HourKey, RetailPeriodKey, MinuteKey, MonthKey, WeekKey, WeekOptions, YearKey } from './index';
+import * as dateFns from 'date-fns';
+
+// Intl range formatting may use thin or narrow no-break spaces depending on the ICU version
+const normalizeSpaces = (text: string) => text.replace(/\s/g, ' ');
+
+// Runs a check as if the host were in another time zone, so host DST transitions are exercised
+const withHostTimeZone = (timeZone: string, check: () => void) => {
+  const hostTimeZone = process.env.TZ;
+  process.env.TZ = timeZone;
+  try {
+    check();
+  } finally {
+    if (hostTimeZone === undefined) delete process.env.TZ;
+    else process.env.TZ = hostTimeZone;
+  }
+};
 
 describe('Type Guards', () => {
   it('should identify day keys', () => {
@@ -72,6 +185,14 @@ describe('Builders', () => {
   it('should build year keys', () => {
     expect(toYearKey(2024)).toBe('2024');
   });
+
+  it('should zero-pad years below 1000', () => {
+    expect(toYearKey(999)).toBe('0999');
+    expect(toMonthKey(999, 1)).toBe('0999-01');
+    expect(toDayKey(999, 1, 1)).toBe('0999-01-01');
+    expect(dateToDayKey(new Date(999, 0, 1))).toBe('0999-01-01');
+    expect(isValidDateKey(dateToDayKey(new Date(999, 0, 1)))).toBe(true);
+  });
 });
 
 describe('Date Converters', () => {
@@ -467,3 +588,1757 @@ describe('Format Options - combined', () => {
     expect(result).toBeTruthy();
   });
 });
+
+describe('Quarter Keys', () => {
+  it('should identify quarter keys', () => {
+    expect(isQuarterKey('2024-Q1')).toBe(true);
+    expect(isQuarterKey('2024-Q4')).toBe(true);
+    expect(isQuarterKey('2024-Q5')).toBe(false);
+    expect(isQuarterKey('2024-01')).toBe(false);
+    expect(isMonthKey('2024-Q1')).toBe(false);
+    expect(isYearKey('2024-Q1')).toBe(false);
+  });
+
+  it('should build and parse quarter keys', () => {
+    expect(toQuarterKey(2024, 1)).toBe('2024-Q1');
+    expect(parseQuarterKey('2024-Q3')).toEqual({ year: 2024, quarter: 3 });
+  });
+
+  it('should convert dates to quarter keys', () => {
+    expect(dateToQuarterKey(new Date(2024, 0, 1))).toBe('2024-Q1');
+    expect(dateToQuarterKey(new Date(2024, 5, 30))).toBe('2024-Q2');
+    expect(dateToQuarterKey(new Date(2024, 11, 31))).toBe('2024-Q4');
+    expect(formatDateAsKey(new Date(2024, 7, 15), 'quarter')).toBe('2024-Q3');
+  });
+
+  it('should parse quarter keys to the start of the quarter', () => {
+    expect(formatDateAsKey(parseDateKey('2024-Q2'), 'day')).toBe('2024-04-01');
+    expect(getDateKeyType('2024-Q2')).toBe('quarter');
+  });
+
+  it('should convert between quarter keys and other types', () => {
+    expect(convertDateKey('2024-05-15', 'quarter')).toBe('2024-Q2');
+    expect(convertDateKey('2024-12', 'quarter')).toBe('2024-Q4');
+    expect(convertDateKey('2024-Q3', 'month')).toBe('2024-07');
+    expect(convertDateKey('2024-Q3', 'year')).toBe('2024');
+  });
+
+  it('should check the current quarter', () => {
+    const currentQuarter = formatDateAsKey(new Date(), 'quarter');
+    expect(isCurrentPeriod(currentQuarter)).toBe(true);
+    expect(isCurrentPeriod('2000-Q1')).toBe(false);
+  });
+
+  it('should format quarter keys', () => {
+    expect(formatFriendlyDate('2024-Q1')).toBe('Q1 2024');
+    expect(normalizeSpaces(formatFriendlyDate('2024-Q1', '2024-Q3'))).toBe('Q1 – Q3 2024');
+    expect(normalizeSpaces(formatFriendlyDate('2023-Q4', '2024-Q1'))).toBe('Q4 2023 – Q1 2024');
+  });
+
+  it('should omit the current year from quarter keys', () => {
+    const currentQuarter = formatDateAsKey(new Date(), 'quarter');
+    const { quarter } = parseQuarterKey(currentQuarter);
+    expect(formatFriendlyDate(currentQuarter, { omitCurrent: true })).toBe(`Q${quarter}`);
+  });
+});
+
+describe('ISO Week System', () => {
+  const iso = { weekSystem: 'iso' } as const;
+
+  it('should number weeks from the week containing January 4th', () => {
+    // Dec 31, 2023 is a Sunday, the last day of ISO week 52 of 2023
+    expect(dateToWeekKey(new Date(2023, 11, 31), iso)).toBe('2023-W52');
+    // Jan 1, 2024 is a Monday, the first day of ISO week 1 of 2024
+    expect(dateToWeekKey(new Date(2024, 0, 1), iso)).toBe('2024-W01');
+    // Jan 1, 2021 is a Friday in ISO week 53 of 2020
+    expect(dateToWeekKey(new Date(2021, 0, 1), iso)).toBe('2020-W53');
+    expect(formatDateAsKey(new Date(2024, 11, 30), 'week', iso)).toBe('2025-W01');
+  });
+
+  it('should parse ISO week keys to the Monday starting the week', () => {
+    expect(formatDateAsKey(parseDateKey('2024-W01', iso), 'day')).toBe('2024-01-01');
+    expect(formatDateAsKey(parseDateKey('2020-W53', iso), 'day')).toBe('2020-12-28');
+    expect(formatDateAsKey(parseDateKey('2025-W01', iso), 'day')).toBe('2024-12-30');
+  });
+
+  it('should round-trip ISO week keys', () => {
+    const testDates = [
+      new Date(2020, 11, 31),
+      new Date(2021, 0, 3),
+      new Date(2023, 11, 31),
+      new Date(2024, 0, 1),
+      new Date(2024, 11, 30),
+      new Date(2026, 5, 15),
+    ];
+
+    testDates.forEach((date) => {
+      const weekKey = dateToWeekKey(date, iso);
+      const roundTrip = dateToWeekKey(parseDateKey(weekKey, iso), iso);
+      expect(roundTrip).toBe(weekKey);
+    });
+  });
+
+  it('should convert keys using ISO weeks', () => {
+    expect(convertDateKey('2023-12-31', 'week', iso)).toBe('2023-W52');
+    expect(convertDateKey('2024-W01', 'day', iso)).toBe('2024-01-01');
+    expect(convertDateKey('2020-W53', 'year', iso)).toBe('2020');
+  });
+
+  it('should allow overriding weekStartsOn and firstWeekContainsDate', () => {
+    expect(dateToWeekKey(new Date(2021, 0, 1), { weekStartsOn: 1, firstWeekContainsDate: 4 })).toBe('2020-W53');
+    expect(dateToWeekKey(new Date(2024, 0, 1), { weekStartsOn: 1 })).toBe('2024-W01');
+    expect(formatDateAsKey(parseDateKey('2024-W02', { weekStartsOn: 1 }), 'day')).toBe('2024-01-08');
+  });
+
+  it('should check the current ISO week', () => {
+    const currentWeek = dateToWeekKey(new Date(), iso);
+    expect(isCurrentWeek(currentWeek, iso)).toBe(true);
+    expect(isCurrentWeek(formatDateAsKey(new Date(), 'day'), iso)).toBe(true);
+  });
+
+  it('should expand ISO weeks when formatting', () => {
+    expect(normalizeSpaces(formatFriendlyDate('2024-W03', iso))).toBe('January 15 – 21, 2024');
+    expect(normalizeSpaces(formatFriendlyDate('2024-W01', '2024-W02', iso))).toBe('January 1 – 14, 2024');
+    expect(normalizeSpaces(formatFriendlyDate('2020-W53', iso))).toBe('December 28, 2020 – January 3, 2021');
+  });
+});
+
+describe('Format Options - locale', () => {
+  it('should default to en-US', () => {
+    expect(formatFriendlyDate('2024-06-15')).toBe(formatFriendlyDate('2024-06-15', { locale: 'en-US' }));
+  });
+
+  it('should format day keys in the given locale', () => {
+    expect(formatFriendlyDate('2024-06-15', { locale: 'de-DE' })).toBe('15. Juni 2024');
+    expect(formatFriendlyDate('2024-06-15', { locale: 'fr-FR', dateStyle: 'full' })).toBe('samedi 15 juin 2024');
+  });
+
+  it('should format month and year keys in the given locale', () => {
+    expect(formatFriendlyDate('2024-06', { locale: 'es-ES' })).toBe('junio de 2024');
+    expect(formatFriendlyDate('2024', { locale: 'ja-JP' })).toBe('2024年');
+  });
+
+  it('should format month ranges in the given locale', () => {
+    expect(normalizeSpaces(formatFriendlyDate('2024-01', '2024-03', { locale: 'fr-FR' }))).toBe('janvier – mars 2024');
+  });
+
+  it('should expand week keys in the given locale', () => {
+    expect(formatFriendlyDate('2024-W03', { locale: 'de-DE' })).toBe('14.–20. Januar 2024');
+  });
+
+  it('should keep quarter labels in every locale', () => {
+    expect(formatFriendlyDate('2024-Q2', { locale: 'de-DE' })).toBe('Q2 2024');
+    expect(formatFriendlyDate('2024-Q2', { locale: 'ja-JP' })).toBe('Q2 2024年');
+    expect(formatFriendlyDate('2024-Q1', '2024-Q3', { locale: 'ja-JP' })).toBe('Q1～Q3 2024年');
+  });
+
+  it('should accept a list of locales in order of preference', () => {
+    expect(formatFriendlyDate('2024-06-15', { locale: ['zz', 'de-DE'] })).toBe('15. Juni 2024');
+  });
+
+  it('should use the locale range pattern for mixed resolutions', () => {
+    expect(normalizeSpaces(formatFriendlyDate('2024-01', '2024-06-15'))).toBe('January 2024 – June 15, 2024');
+    expect(formatFriendlyDate('2024-01', '2024-06-15', { locale: 'ja-JP' })).toBe('2024年1月～2024年6月15日');
+    expect(formatFriendlyDate('2024', '2026', { locale: 'ja-JP' })).toBe('2024年～2026年');
+  });
+});
+
+describe('Date Key Arithmetic', () => {
+  it('should add days across month and year boundaries', () => {
+    expect(addToDateKey('2024-01-31', 1)).toBe('2024-02-01');
+    expect(addToDateKey('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addToDateKey('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('should add weeks across week years', () => {
+    expect(addToDateKey('2024-W52', 1)).toBe('2025-W01');
+    expect(addToDateKey('2024-W01', -1)).toBe('2023-W52');
+    expect(addToDateKey('2020-W52', 1, { weekSystem: 'iso' })).toBe('2020-W53');
+    expect(addToDateKey('2020-W53', 1, { weekSystem: 'iso' })).toBe('2021-W01');
+  });
+
+  it('should add months, quarters and years', () => {
+    expect(addToDateKey('2024-01', 2)).toBe('2024-03');
+    expect(addToDateKey('2024-11', 3)).toBe('2025-02');
+    expect(addToDateKey('2024-Q4', 1)).toBe('2025-Q1');
+    expect(addToDateKey('2024', -3)).toBe('2021');
+  });
+
+  it('should subtract periods', () => {
+    expect(subtractFromDateKey('2024-01', 1)).toBe('2023-12');
+    expect(subtractFromDateKey('2024-W01', 1)).toBe('2023-W52');
+    expect(subtractFromDateKey('2024-Q1', 2)).toBe('2023-Q3');
+  });
+
+  it('should infer the key type of the result', () => {
+    const dayKey: DayKey = '2024-01-15';
+    const weekKey: WeekKey = '2024-W03';
+    const monthKey: MonthKey = '2024-01';
+    expectTypeOf(addToDateKey(dayKey, 1)).toEqualTypeOf<DayKey>();
+    expectTypeOf(addToDateKey(weekKey, 1)).toEqualTypeOf<WeekKey>();
+    expectTypeOf(subtractFromDateKey(monthKey, 1)).toEqualTypeOf<MonthKey>();
+  });
+
+  it('should diff keys in their shared resolution', () => {
+    expect(diffDateKeys('2024-01-15', '2024-02-15')).toBe(31);
+    expect(diffDateKeys('2023-W50', '2024-W02')).toBe(4);
+    expect(diffDateKeys('2020-W52', '2021-W01', { weekSystem: 'iso' })).toBe(2);
+    expect(diffDateKeys('2024-03', '2024-01')).toBe(-2);
+    expect(diffDateKeys('2023-Q3', '2024-Q2')).toBe(3);
+    expect(diffDateKeys('2020', '2024')).toBe(4);
+  });
+
+  it('should be the inverse of addToDateKey', () => {
+    expect(addToDateKey('2023-W50', diffDateKeys('2023-W50', '2024-W02'))).toBe('2024-W02');
+  });
+
+  it('should reject keys of different types', () => {
+    expect(() => diffDateKeys('2024-01', '2024-01-15')).toThrow();
+  });
+});
+
+describe('Range Iteration', () => {
+  it('should list every key between two keys of the same type', () => {
+    expect(eachDateKey('2024-01-30', '2024-02-02')).toEqual(['2024-01-30', '2024-01-31', '2024-02-01', '2024-02-02']);
+    expect(eachDateKey('2024-11', '2025-02')).toEqual(['2024-11', '2024-12', '2025-01', '2025-02']);
+    expect(eachDateKey('2024-Q3', '2025-Q1')).toEqual(['2024-Q3', '2024-Q4', '2025-Q1']);
+    expect(eachDateKey('2022', '2024')).toEqual(['2022', '2023', '2024']);
+  });
+
+  it('should cross week years like dateToWeekKey', () => {
+    expect(eachDateKey('2023-W51', '2024-W02')).toEqual(['2023-W51', '2023-W52', '2024-W01', '2024-W02']);
+    expect(eachDateKey('2020-W52', '2021-W01', { weekSystem: 'iso' })).toEqual(['2020-W52', '2020-W53', '2021-W01']);
+  });
+
+  it('should support a step', () => {
+    expect(eachDateKey('2024-01-01', '2024-01-10', { step: 3 })).toEqual(['2024-01-01', '2024-01-04', '2024-01-07', '2024-01-10']);
+    expect(eachDateKey('2020', '2029', { step: 5 })).toEqual(['2020', '2025']);
+  });
+
+  it('should produce keys at a target resolution covering the full span', () => {
+    const weeks = eachDateKey('2024-01', '2024-03', { type: 'week' });
+    expect(weeks[0]).toBe('2024-W01');
+    expect(weeks[weeks.length - 1]).toBe(dateToWeekKey(new Date(2024, 2, 31)));
+    expect(weeks).toHaveLength(14);
+    expect(eachDateKey('2024-02', '2024-02', { type: 'day' })).toHaveLength(29);
+    expect(eachDateKey('2024-01-15', '2024-W10', { type: 'month' })).toEqual(['2024-01', '2024-02', '2024-03']);
+  });
+
+  it('should return nothing when the end is before the start', () => {
+    expect(eachDateKey('2024-03', '2024-01')).toEqual([]);
+  });
+
+  it('should generate keys lazily', () => {
+    const iterator = iterateDateKeys('2024-01-01', '2999-12-31');
+    expect(iterator.next().value).toBe('2024-01-01');
+    expect(iterator.next().value).toBe('2024-01-02');
+  });
+
+  it('should infer the key type of the result', () => {
+    const start: YearKey = '2020';
+    const end: YearKey = '2024';
+    expectTypeOf(eachDateKey(start, end)).toEqualTypeOf<YearKey[]>();
+    expectTypeOf(eachDateKey(start, end, { type: 'week' })).toEqualTypeOf<WeekKey[]>();
+  });
+
+  it('should reject mixed types without a target type and invalid steps', () => {
+    expect(() => eachDateKey('2024-01', '2024-03-01')).toThrow();
+    expect(() => eachDateKey('2024-01', '2024-03', { step: 0 })).toThrow();
+  });
+});
+
+describe('Period Boundaries', () => {
+  it('should get the interval of each key type', () => {
+    const day = getDateKeyInterval('2024-01-15');
+    expect(day.start).toEqual(new Date(2024, 0, 15));
+    expect(day.end).toEqual(new Date(2024, 0, 15, 23, 59, 59, 999));
+
+    const month = getDateKeyInterval('2024-02');
+    expect(month.start).toEqual(new Date(2024, 1, 1));
+    expect(month.end).toEqual(new Date(2024, 1, 29, 23, 59, 59, 999));
+
+    const quarter = getDateKeyInterval('2024-Q4');
+    expect(quarter.end).toEqual(new Date(2024, 11, 31, 23, 59, 59, 999));
+
+    const year = getDateKeyInterval('2023');
+    expect(year.start).toEqual(new Date(2023, 0, 1));
+    expect(year.end).toEqual(new Date(2023, 11, 31, 23, 59, 59, 999));
+  });
+
+  it('should use the same week rules as the converters', () => {
+    const week = getDateKeyInterval('2024-W01');
+    expect(week.start).toEqual(new Date(2023, 11, 31));
+    expect(week.end).toEqual(new Date(2024, 0, 6, 23, 59, 59, 999));
+
+    const isoWeek = getDateKeyInterval('2024-W01', { weekSystem: 'iso' });
+    expect(isoWeek.start).toEqual(new Date(2024, 0, 1));
+    expect(isoWeek.end).toEqual(new Date(2024, 0, 7, 23, 59, 59, 999));
+  });
+
+  it('should get child keys', () => {
+    expect(getChildKeys('2024-W01', 'day')).toEqual([
+      '2023-12-31', '2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05', '2024-01-06',
+    ]);
+    expect(getChildKeys('2024-Q2', 'month')).toEqual(['2024-04', '2024-05', '2024-06']);
+    expect(getChildKeys('2024', 'quarter')).toEqual(['2024-Q1', '2024-Q2', '2024-Q3', '2024-Q4']);
+    expect(getChildKeys('2024', 'month')).toHaveLength(12);
+    expect(getChildKeys('2024-02', 'day')).toHaveLength(29);
+  });
+
+  it('should include every overlapping week as a child', () => {
+    const weeks = getChildKeys('2024-02', 'week');
+    expect(weeks[0]).toBe(dateToWeekKey(new Date(2024, 1, 1)));
+    expect(weeks[weeks.length - 1]).toBe(dateToWeekKey(new Date(2024, 1, 29)));
+  });
+
+  it('should get parent keys', () => {
+    expect(getParentKey('2024-01-15', 'week')).toBe('2024-W03');
+    expect(getParentKey('2024-05', 'quarter')).toBe('2024-Q2');
+    expect(getParentKey('2024-Q2', 'year')).toBe('2024');
+  });
+
+  it('should reject resolutions in the wrong direction', () => {
+    expect(() => getChildKeys('2024-01-15', 'month')).toThrow();
+    expect(() => getParentKey('2024', 'month')).toThrow();
+  });
+});
+
+describe('Relative Formatting', () => {
+  const now = new Date(2026, 5, 17); // Wednesday, June 17, 2026
+
+  it('should describe day keys in days', () => {
+    expect(formatRelativeDateKey('2026-06-17', { now })).toBe('today');
+    expect(formatRelativeDateKey('2026-06-16', { now })).toBe('yesterday');
+    expect(formatRelativeDateKey('2026-06-18', { now })).toBe('tomorrow');
+    expect(formatRelativeDateKey('2026-06-14', { now })).toBe('3 days ago');
+  });
+
+  it('should describe coarser keys in their own resolution', () => {
+    expect(formatRelativeDateKey(dateToWeekKey(now), { now })).toBe('this week');
+    expect(formatRelativeDateKey('2026-05', { now })).toBe('last month');
+    expect(formatRelativeDateKey('2026-09', { now })).toBe('in 3 months');
+    expect(formatRelativeDateKey('2026-Q3', { now })).toBe('next quarter');
+    expect(formatRelativeDateKey('2023', { now })).toBe('3 years ago');
+  });
+
+  it('should respect week options', () => {
+    // Sunday, June 14 is in the current locale week, but in the previous ISO week
+    expect(formatRelativeDateKey(dateToWeekKey(new Date(2026, 5, 14)), { now })).toBe('this week');
+    expect(formatRelativeDateKey(dateToWeekKey(new Date(2026, 5, 14), { weekSystem: 'iso' }), { now, weekSystem: 'iso' })).toBe('last week');
+  });
+
+  it('should support numeric: always', () => {
+    expect(formatRelativeDateKey('2026-06-16', { now, numeric: 'always' })).toBe('1 day ago');
+    expect(formatRelativeDateKey('2026-06', { now, numeric: 'always' })).toBe('in 0 months');
+  });
+
+  it('should format in the given locale', () => {
+    expect(formatRelativeDateKey('2026-06-16', { now, locale: 'de-DE' })).toBe('gestern');
+    expect(formatRelativeDateKey('2026-05', { now, locale: 'es-ES' })).toBe('el mes pasado');
+  });
+
+  it('should use relative wording in formatFriendlyDate within the threshold', () => {
+    const today = new Date();
+    const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+    const lastYear = toYearKey(today.getFullYear() - 1);
+    expect(formatFriendlyDate(dateToDayKey(today), { relative: true })).toBe('today');
+    expect(formatFriendlyDate(dateToDayKey(yesterday), { relative: true })).toBe('yesterday');
+    expect(formatFriendlyDate(dateToMonthKey(today), { relative: true })).toBe('this month');
+    expect(formatFriendlyDate(lastYear, { relative: true })).toBe('last year');
+    expect(formatFriendlyDate(toYearKey(today.getFullYear() - 3), { relative: 5 })).toBe('3 years ago');
+  });
+
+  it('should use absolute dates in formatFriendlyDate outside the threshold', () => {
+    expect(formatFriendlyDate('2020-06-15', { relative: true })).toBe('June 15, 2020');
+    expect(formatFriendlyDate('2020', { relative: 2 })).toBe('2020');
+    expect(formatFriendlyDate(dateToDayKey(new Date()), { relative: false })).not.toBe('today');
+  });
+});
+
+describe('Reference Dates and Clock', () => {
+  afterEach(() => {
+    setClock(null);
+  });
+
+  it('should check current periods against a reference date', () => {
+    const now = new Date(2026, 1, 17);
+    expect(isCurrentDay('2026-02-17', { now })).toBe(true);
+    expect(isCurrentDay('2026-02-16', { now })).toBe(false);
+    expect(isCurrentWeek('2026-02-15', { now })).toBe(true);
+    expect(isCurrentMonth('2026-02', { now })).toBe(true);
+    expect(isCurrentYear('2025', { now })).toBe(false);
+    expect(isCurrentPeriod('2026-Q1', undefined, { now })).toBe(true);
+  });
+
+  it('should accept a date key as the reference', () => {
+    expect(isCurrentMonth('2026-02-17', { now: '2026-02' })).toBe(true);
+    expect(isCurrentPeriod('2026-02-17', 'year', { now: '2026' })).toBe(true);
+    expect(isCurrentWeek('2024-01-01', { now: '2024-W01' })).toBe(true);
+    expect(isCurrentWeek('2024-01-01', { now: '2024-W01', weekSystem: 'iso' })).toBe(true);
+  });
+
+  it('should omit the current year and month relative to the reference date', () => {
+    expect(formatFriendlyDate('2024-06-15', { omitCurrent: true, now: '2024-06' })).toBe('15');
+    expect(formatFriendlyDate('2024-03-15', { omitCurrent: true, now: new Date(2024, 5, 1) })).toBe('March 15');
+    expect(formatFriendlyDate('2024-03', { omitCurrent: true, now: '2024' })).toBe('March');
+    expect(formatFriendlyDate('2024-03', { omitCurrent: true, now: '2025' })).toBe('March 2024');
+  });
+
+  it('should use the reference date for relative wording', () => {
+    expect(formatFriendlyDate('2024-06-14', { relative: true, now: '2024-06-15' })).toBe('yesterday');
+    expect(formatRelativeDateKey('2024-05', { now: '2024-06-15' })).toBe('last month');
+  });
+
+  it('should use the library-wide clock by default', () => {
+    setClock(() => new Date(2030, 0, 15));
+    expect(getNow()).toEqual(new Date(2030, 0, 15));
+    expect(isCurrentDay('2030-01-15')).toBe(true);
+    expect(isCurrentPeriod('2030-Q1')).toBe(true);
+    expect(formatFriendlyDate('2030-01-20', { omitCurrent: true })).toBe('20');
+    expect(formatRelativeDateKey('2029-12')).toBe('last month');
+  });
+
+  it('should restore the system clock', () => {
+    setClock(() => new Date(2030, 0, 15));
+    setClock(null);
+    expect(isCurrentDay(dateToDayKey(new Date()))).toBe(true);
+  });
+});
+
+describe('Time Zones', () => {
+  // 16:00 UTC is already 01:00 the next day in Tokyo
+  const instant = new Date('2024-01-15T16:00:00Z');
+
+  it('should convert instants to keys in a time zone', () => {
+    expect(dateToDayKey(instant, { timeZone: 'Asia/Tokyo' })).toBe('2024-01-16');
+    expect(dateToDayKey(instant, { timeZone: 'America/Los_Angeles' })).toBe('2024-01-15');
+    expect(formatDateAsKey(new Date('2023-12-31T20:00:00Z'), 'year', { timeZone: 'Asia/Tokyo' })).toBe('2024');
+    expect(dateToMonthKey(new Date('2024-02-01T03:00:00Z'), { timeZone: 'America/New_York' })).toBe('2024-01');
+    expect(dateToQuarterKey(new Date('2024-03-31T23:00:00Z'), { timeZone: 'Europe/Berlin' })).toBe('2024-Q2');
+    expect(dateToWeekKey(new Date('2024-01-06T23:30:00Z'), { timeZone: 'Asia/Tokyo' })).toBe('2024-W02');
+  });
+
+  it('should resolve days around DST transitions', () => {
+    // Spring forward in New York at 2024-03-10 07:00 UTC (02:00 EST -> 03:00 EDT)
+    expect(formatDateAsKey(new Date('2024-03-10T04:59:59Z'), 'day', { timeZone: 'America/New_York' })).toBe('2024-03-09');
+    expect(formatDateAsKey(new Date('2024-03-10T05:00:00Z'), 'day', { timeZone: 'America/New_York' })).toBe('2024-03-10');
+    expect(formatDateAsKey(new Date('2024-03-11T03:59:59Z'), 'day', { timeZone: 'America/New_York' })).toBe('2024-03-10');
+    expect(formatDateAsKey(new Date('2024-03-11T04:00:00Z'), 'day', { timeZone: 'America/New_York' })).toBe('2024-03-11');
+  });
+
+  it('should read keys in a time zone without the host time zone shifting them', () => {
+    // 02:30 in Tokyo is inside the New York host's spring-forward gap
+    const instant = new Date('2024-03-09T17:30:00Z');
+    withHostTimeZone('America/New_York', () => {
+      expect(dateToHourKey(instant, { timeZone: 'Asia/Tokyo' })).toBe('2024-03-10T02');
+      expect(dateToMinuteKey(instant, { timeZone: 'Asia/Tokyo' })).toBe('2024-03-10T02:30');
+      expect(formatDateAsKey(instant, 'hour', { timeZone: 'Asia/Tokyo' })).toBe('2024-03-10T02');
+      expect(getCurrentDateKey('hour', { now: instant, timeZone: 'Asia/Tokyo' })).toBe('2024-03-10T02');
+    });
+  });
+
+  it('should format weeks as their days in a time zone', () => {
+    expect(normalizeSpaces(formatFriendlyDate('2024-W03', { timeZone: 'Asia/Tokyo' }))).toBe('January 14 – 20, 2024');
+    expect(normalizeSpaces(formatFriendlyDate('2024-W03', { timeZone: 'America/Los_Angeles' }))).toBe('January 14 – 20, 2024');
+    expect(normalizeSpaces(formatFriendlyDate('2024-W03', '2024-W04', { timeZone: 'Asia/Tokyo' }))).toBe('January 14 – 27, 2024');
+  });
+
+  it('should read the current period for friendly dates in a time zone', () => {
+    expect(formatFriendlyDate('2024-01-16', { now: instant, timeZone: 'Asia/Tokyo', relative: true })).toBe('today');
+    expect(formatFriendlyDate('2024-01-16', { now: instant, timeZone: 'America/Los_Angeles', relative: true })).toBe('tomorrow');
+  });
+
+  it('should check current periods in a time zone', () => {
+    expect(isCurrentDay('2024-01-16', { now: instant, timeZone: 'Asia/Tokyo' })).toBe(true);
+    expect(isCurrentDay('2024-01-16', { now: instant, timeZone: 'America/Los_Angeles' })).toBe(false);
+    expect(getCurrentDateKey('day', { now: instant, timeZone: 'Asia/Tokyo' })).toBe('2024-01-16');
+    expect(getCurrentDateKey('week', { now: '2024-01', timeZone: 'America/Los_Angeles' })).toBe('2024-W01');
+  });
+
+  it('should get the instants a key starts and ends in a time zone', () => {
+    const tokyo = getDateKeyInterval('2024-01', { timeZone: 'Asia/Tokyo' });
+    expect(tokyo.start.toISOString()).toBe('2023-12-31T15:00:00.000Z');
+    expect(tokyo.end.toISOString()).toBe('2024-01-31T14:59:59.999Z');
+
+    const isoWeek = getDateKeyInterval('2024-W01', { timeZone: 'Asia/Kolkata', weekSystem: 'iso' });
+    expect(isoWeek.start.toISOString()).toBe('2023-12-31T18:30:00.000Z');
+  });
+
+  it('should get intervals across DST transitions', () => {
+    // A 23-hour day
+    const springForward = getDateKeyInterval('2024-03-10', { timeZone: 'America/New_York' });
+    expect(springForward.start.toISOString()).toBe('2024-03-10T05:00:00.000Z');
+    expect(springForward.end.toISOString()).toBe('2024-03-11T03:59:59.999Z');
+
+    // A 25-hour day
+    const fallBack = getDateKeyInterval('2024-11-03', { timeZone: 'America/New_York' });
+    expect(fallBack.start.toISOString()).toBe('2024-11-03T04:00:00.000Z');
+    expect(fallBack.end.toISOString()).toBe('2024-11-04T04:59:59.999Z');
+
+    // Midnight is skipped, so the day starts at 01:00
+    const skippedMidnight = getDateKeyInterval('2018-11-04', { timeZone: 'America/Sao_Paulo' });
+    expect(skippedMidnight.start.toISOString()).toBe('2018-11-04T03:00:00.000Z');
+  });
+
+  it('should give skipped hours a zero-length interval at the transition', () => {
+    const skipped = getDateKeyInterval('2024-03-10T02', { timeZone: 'America/New_York' });
+    expect(skipped.start.toISOString()).toBe('2024-03-10T07:00:00.000Z');
+    expect(skipped.end.toISOString()).toBe('2024-03-10T07:00:00.000Z');
+
+    // Skipped wall-clock times resolve to the transition, not forward by the gap
+    const skippedMinute = getDateKeyInterval('2024-03-10T02:30', { timeZone: 'America/New_York' });
+    expect(skippedMinute.start.toISOString()).toBe('2024-03-10T07:00:00.000Z');
+    expect(skippedMinute.end.toISOString()).toBe('2024-03-10T07:00:00.000Z');
+    // Lord Howe Island moves its clocks by half an hour
+    expect(getDateKeyInterval('2024-10-06T02:15', { timeZone: 'Australia/Lord_Howe' }).start.toISOString()).toBe(
+      '2024-10-05T15:30:00.000Z',
+    );
+
+    const repeated = getDateKeyInterval('2024-11-03T01', { timeZone: 'America/New_York' });
+    expect(repeated.start.toISOString()).toBe('2024-11-03T05:00:00.000Z');
+    expect(repeated.end.toISOString()).toBe('2024-11-03T06:59:59.999Z');
+  });
+
+  it('should get intervals in a time zone whatever the host time zone', () => {
+    for (const hostTimeZone of ['America/New_York', 'Australia/Lord_Howe']) {
+      withHostTimeZone(hostTimeZone, () => {
+        // 02:00 on March 10 is skipped in New York but exists in Tokyo
+        const tokyo = getDateKeyInterval('2024-03-10T02', { timeZone: 'Asia/Tokyo' });
+        expect(tokyo.start.toISOString()).toBe('2024-03-09T17:00:00.000Z');
+        expect(tokyo.end.toISOString()).toBe('2024-03-09T17:59:59.999Z');
+
+        const skippedMinute = getDateKeyInterval('2024-03-10T02:30', { timeZone: 'America/New_York' });
+        expect(skippedMinute.start.toISOString()).toBe('2024-03-10T07:00:00.000Z');
+        expect(skippedMinute.end.toISOString()).toBe('2024-03-10T07:00:00.000Z');
+        // 02:15 on October 6 is skipped in Lord Howe but exists in New York
+        const newYork = getDateKeyInterval('2024-10-06T02:15', { timeZone: 'America/New_York' });
+        expect(newYork.start.toISOString()).toBe('2024-10-06T06:15:00.000Z');
+      });
+    }
+  });
+});
+
+describe('Strict Validation', () => {
+  it('should narrow unknown values with the type guards', () => {
+    const values: unknown[] = ['2024-01-15', 20240115, null, { key: '2024' }];
+    expect(values.filter(isDayKey)).toEqual(['2024-01-15']);
+    expect(isYearKey(2024)).toBe(false);
+  });
+
+  it('should check calendar validity of day keys', () => {
+    expect(isValidDayKey('2024-01-15')).toBe(true);
+    expect(isValidDayKey('2024-02-29')).toBe(true);
+    expect(isValidDayKey('2023-02-29')).toBe(false);
+    expect(isValidDayKey('2024-13-45')).toBe(false);
+    expect(isValidDayKey('2024-04-31')).toBe(false);
+    expect(isValidDayKey('2024-01-00')).toBe(false);
+    expect(isValidDayKey('2024-01')).toBe(false);
+  });
+
+  it('should require leading zeros', () => {
+    expect(isValidDateKey('2024-1-5')).toBe(false);
+    expect(isValidDateKey('2024-W3')).toBe(false);
+    expect(isValidDateKey('24-01')).toBe(false);
+  });
+
+  it('should check week numbers against the week year', () => {
+    expect(isValidWeekKey('2024-W52')).toBe(true);
+    expect(isValidWeekKey('2024-W53')).toBe(false);
+    expect(isValidWeekKey('2022-W53')).toBe(true);
+    expect(isValidWeekKey('2024-W00')).toBe(false);
+    expect(isValidWeekKey('2024-W60')).toBe(false);
+    expect(isValidWeekKey('2020-W53', { weekSystem: 'iso' })).toBe(true);
+    expect(isValidWeekKey('2021-W53', { weekSystem: 'iso' })).toBe(false);
+  });
+
+  it('should check months and accept every quarter and year key', () => {
+    expect(isValidMonthKey('2024-12')).toBe(true);
+    expect(isValidMonthKey('2024-13')).toBe(false);
+    expect(isValidMonthKey('2024-00')).toBe(false);
+    expect(isValidDateKey('2024-Q4')).toBe(true);
+    expect(isValidDateKey('2024-Q5')).toBe(false);
+    expect(isValidDateKey('2024')).toBe(true);
+  });
+
+  it('should throw a DateKeyError with a code from assertDateKey', () => {
+    const codeOf = (value: unknown) => {
+      try {
+        assertDateKey(value);
+        return undefined;
+      } catch (error) {
+        expect(error).toBeInstanceOf(DateKeyError);
+        expect(error).toBeInstanceOf(Error);
+        return (error as DateKeyError).code;
+      }
+    };
+    expect(codeOf('2024-01-15')).toBeUndefined();
+    expect(codeOf(42)).toBe('INVALID_TYPE');
+    expect(codeOf('2024/01/15')).toBe('INVALID_FORMAT');
+    expect(codeOf('2024-13-45')).toBe('INVALID_MONTH');
+    expect(codeOf('2023-02-29')).toBe('INVALID_DAY');
+    expect(codeOf('2024-W60')).toBe('INVALID_WEEK');
+    expect(() => assertDateKey('2024-13-45')).toThrow(/month 13/);
+  });
+
+  it('should parse untrusted values without throwing', () => {
+    const result = tryParseDateKey('2024-W03');
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.key).toBe('2024-W03');
+      expect(result.type).toBe('week');
+      expect(formatDateAsKey(result.date, 'day')).toBe('2024-01-14');
+    }
+
+    const failure = tryParseDateKey('2024-02-30');
+    expect(failure.success).toBe(false);
+    if (!failure.success) {
+      expect(failure.error.code).toBe('INVALID_DAY');
+      expect(failure.error.value).toBe('2024-02-30');
+    }
+  });
+
+  it('should throw DateKeyError for unrecognized keys in the converters', () => {
+    expect(() => getDateKeyType('January' as DayKey)).toThrow(DateKeyError);
+  });
+});
+
+describe('Sub-day Keys', () => {
+  it('should recognize hour and minute keys', () => {
+    expect(isHourKey('2024-01-15T13')).toBe(true);
+    expect(isHourKey('2024-01-15')).toBe(false);
+    expect(isHourKey('2024-01-15T13:45')).toBe(false);
+    expect(isMinuteKey('2024-01-15T13:45')).toBe(true);
+    expect(isMinuteKey('2024-01-15T13')).toBe(false);
+    expect(isDayKey('2024-01-15T13')).toBe(false);
+    expect(getDateKeyType('2024-01-15T13')).toBe('hour');
+    expect(getDateKeyType('2024-01-15T13:45')).toBe('minute');
+  });
+
+  it('should build, convert, and parse sub-day keys', () => {
+    expect(toHourKey(2024, 1, 15, 9)).toBe('2024-01-15T09');
+    expect(toMinuteKey(2024, 1, 15, 13, 5)).toBe('2024-01-15T13:05');
+    expect(dateToHourKey(new Date(2024, 0, 15, 13, 45))).toBe('2024-01-15T13');
+    expect(dateToMinuteKey(new Date(2024, 0, 15, 13, 45))).toBe('2024-01-15T13:45');
+    expect(dateToHourKey(new Date('2024-01-15T04:00:00Z'), { timeZone: 'Asia/Tokyo' })).toBe('2024-01-15T13');
+    expect(parseHourKey('2024-01-15T13')).toEqual({ year: 2024, month: 1, day: 15, hour: 13 });
+    expect(parseMinuteKey('2024-01-15T13:45')).toEqual({ year: 2024, month: 1, day: 15, hour: 13, minute: 45 });
+    expect(parseDateKey('2024-01-15T13:45')).toEqual(new Date(2024, 0, 15, 13, 45));
+  });
+
+  it('should convert sub-day keys to coarser resolutions and back', () => {
+    expect(convertDateKey('2024-01-15T13:45', 'hour')).toBe('2024-01-15T13');
+    expect(convertDateKey('2024-01-15T13', 'day')).toBe('2024-01-15');
+    expect(convertDateKey('2024-01-15T13', 'week')).toBe('2024-W03');
+    expect(convertDateKey('2024-01-15T13', 'month')).toBe('2024-01');
+    expect(convertDateKey('2024-01-15T13', 'year')).toBe('2024');
+    expect(convertDateKey('2024-01-15', 'hour')).toBe('2024-01-15T00');
+
+    const hour: HourKey = convertDateKey('2024-01-15T13:45', 'hour');
+    const minute: MinuteKey = addToDateKey('2024-01-15T13:45', 30);
+    expectTypeOf(hour).toEqualTypeOf<HourKey>();
+    expectTypeOf(minute).toEqualTypeOf<MinuteKey>();
+    expectTypeOf(addToDateKey('2024-01-15T13' as HourKey, 1)).toEqualTypeOf<HourKey>();
+  });
+
+  it('should do arithmetic and iteration in hours and minutes', () => {
+    expect(addToDateKey('2024-01-15T23', 2)).toBe('2024-01-16T01');
+    expect(addToDateKey('2024-01-15T13:45', 30)).toBe('2024-01-15T14:15');
+    expect(diffDateKeys('2024-01-15T22', '2024-01-16T01')).toBe(3);
+    expect(eachDateKey('2024-01-15T22', '2024-01-16T01')).toEqual([
+      '2024-01-15T22',
+      '2024-01-15T23',
+      '2024-01-16T00',
+      '2024-01-16T01',
+    ]);
+    expect(getChildKeys('2024-01-15', 'hour')).toHaveLength(24);
+    expect(getParentKey('2024-01-15T13:45', 'hour')).toBe('2024-01-15T13');
+    expect(getDateKeyInterval('2024-01-15T13')).toEqual({
+      start: new Date(2024, 0, 15, 13),
+      end: new Date(2024, 0, 15, 13, 59, 59, 999),
+    });
+  });
+
+  it('should count every wall-clock hour once across daylight saving transitions', () => {
+    withHostTimeZone('America/New_York', () => {
+      expect(addToDateKey('2024-03-10T01', 1)).toBe('2024-03-10T02');
+      expect(addToDateKey('2024-03-10T02', 0)).toBe('2024-03-10T02');
+      expect(addToDateKey('2024-11-03T01:30', 60)).toBe('2024-11-03T02:30');
+      expect(diffDateKeys('2024-11-03T00', '2024-11-03T03')).toBe(3);
+      expect(diffDateKeys('2024-03-10T00:00', '2024-03-10T03:00')).toBe(180);
+      expect(eachDateKey('2024-11-03T00', '2024-11-03T03')).toEqual([
+        '2024-11-03T00',
+        '2024-11-03T01',
+        '2024-11-03T02',
+        '2024-11-03T03',
+      ]);
+      expect(eachDateKey('2024-03-10T01', '2024-03-10T02')).toEqual(['2024-03-10T01', '2024-03-10T02']);
+      for (const day of ['2024-03-10', '2024-11-03'] as const) {
+        const hours = getChildKeys(day, 'hour');
+        expect(hours).toHaveLength(24);
+        expect(new Set(hours).size).toBe(24);
+      }
+    });
+  });
+
+  it('should keep hours skipped by the host time zone when converting, comparing, and formatting', () => {
+    for (const hostTimeZone of ['America/New_York', 'Australia/Lord_Howe']) {
+      withHostTimeZone(hostTimeZone, () => {
+        // Skipped in New York on March 10, and in Lord Howe (from 02:00 to 02:30) on October 6
+        for (const day of ['2024-03-10', '2024-10-06'] as const) {
+          const hour = `${day}T02` as HourKey;
+          const minute = `${day}T02:15` as MinuteKey;
+          expect(convertDateKey(hour, 'hour')).toBe(hour);
+          expect(convertDateKey(minute, 'minute')).toBe(minute);
+          expect(convertDateKey(minute, 'hour')).toBe(hour);
+          expect(convertDateKey(hour, 'minute')).toBe(`${hour}:00`);
+          expect(getParentKey(minute, 'hour')).toBe(hour);
+          expect(getChildKeys(hour, 'minute')).toHaveLength(60);
+          expect(formatFriendlyDate(hour)).toMatch(/, 2 AM$/);
+          expect(normalizeSpaces(formatFriendlyDate(`${day}T01`, `${day}T02`))).toMatch(/, 1 – 2 AM$/);
+          expect(dateKeyRangeContains({ start: `${day}T01`, end: `${day}T04` }, hour)).toBe(true);
+          expect(compareDateKeys(`${day}T02`, `${day}T03`)).toBeLessThan(0);
+          expect(sortDateKeys([`${day}T03`, minute, hour])).toEqual([hour, minute, `${day}T03`]);
+        }
+      });
+    }
+  });
+
+  it('should check the current hour', () => {
+    const now = new Date(2024, 0, 15, 13, 20);
+    expect(isCurrentHour('2024-01-15T13', { now })).toBe(true);
+    expect(isCurrentHour('2024-01-15T13:45', { now })).toBe(true);
+    expect(isCurrentPeriod('2024-01-15T14', undefined, { now })).toBe(false);
+  });
+
+  it('should validate hours and minutes', () => {
+    expect(isValidDateKey('2024-01-15T23:59')).toBe(true);
+    expect(isValidDateKey('2024-02-30T10')).toBe(false);
+    expect(tryParseDateKey('2024-01-15T24').success).toBe(false);
+    expect(() => assertDateKey('2024-01-15T24')).toThrow(/hour 24/);
+    expect(() => assertDateKey('2024-01-15T13:60')).toThrow(/minute 60/);
+  });
+
+  it('should format sub-day keys', () => {
+    expect(formatFriendlyDate('2024-01-15T13')).toBe('January 15, 2024, 1 PM');
+    expect(formatFriendlyDate('2024-01-15T13:45')).toBe('January 15, 2024, 1:45 PM');
+    expect(formatFriendlyDate('2024-01-15T13', { dateStyle: 'medium' })).toBe('Jan 15, 2024, 1 PM');
+    expect(formatFriendlyDate('2024-01-15T13', { omitCurrent: true, now: '2024-03' })).toBe('January 15, 1 PM');
+    expect(normalizeSpaces(formatFriendlyDate('2024-01-15T13', { locale: 'de-DE' }))).toBe('15. Januar 2024, 13 Uhr');
+  });
+
+  it('should collapse redundant parts of sub-day ranges', () => {
+    expect(normalizeSpaces(formatFriendlyDate('2024-01-15T13', '2024-01-15T16'))).toBe('January 15, 2024, 1 – 4 PM');
+    expect(normalizeSpaces(formatFriendlyDate('2024-01-15T10', '2024-01-15T16'))).toBe('January 15, 2024, 10 AM – 4 PM');
+    expect(normalizeSpaces(formatFriendlyDate('2024-01-15T13:45', '2024-01-15T14:15'))).toBe('January 15, 2024, 1:45 – 2:15 PM');
+    expect(normalizeSpaces(formatFriendlyDate('2024-01-15T13', '2024-01-16T16'))).toBe(
+      'January 15, 2024, 1 PM – January 16, 2024, 4 PM',
+    );
+  });
+});
+
+describe('Fiscal Calendar', () => {
+  const october = { fiscalYearStartMonth: 10 } as const;
+
+  it('should recognize and build fiscal keys', () => {
+    expect(isFiscalYearKey('FY2025')).toBe(true);
+    expect(isFiscalYearKey('2025')).toBe(false);
+    expect(isFiscalQuarterKey('FY2025-Q1')).toBe(true);
+    expect(isFiscalQuarterKey('FY2025-Q5')).toBe(false);
+    expect(toFiscalYearKey(2025)).toBe('FY2025');
+    expect(toFiscalQuarterKey(2025, 2)).toBe('FY2025-Q2');
+    expect(parseFiscalQuarterKey('FY2025-Q2')).toEqual({ year: 2025, quarter: 2 });
+  });
+
+  it('should name fiscal years after the year they end in by default', () => {
+    expect(dateToFiscalYearKey(new Date(2024, 9, 1), october)).toBe('FY2025');
+    expect(dateToFiscalYearKey(new Date(2024, 8, 30), october)).toBe('FY2024');
+    expect(dateToFiscalYearKey(new Date(2024, 9, 1), { ...october, fiscalYearNaming: 'start' })).toBe('FY2024');
+    expect(dateToFiscalYearKey(new Date(2024, 9, 1))).toBe('FY2024');
+  });
+
+  it('should assign fiscal quarters from the start month', () => {
+    expect(dateToFiscalQuarterKey(new Date(2024, 9, 1), october)).toBe('FY2025-Q1');
+    expect(dateToFiscalQuarterKey(new Date(2025, 0, 15), october)).toBe('FY2025-Q2');
+    expect(dateToFiscalQuarterKey(new Date(2025, 8, 30), october)).toBe('FY2025-Q4');
+    expect(convertToFiscalKey('2025-03', 'fiscalQuarter', october)).toBe('FY2025-Q2');
+    expect(convertToFiscalKey('2024-10-15', 'fiscalYear', october)).toBe('FY2025');
+  });
+
+  it('should convert fiscal keys back to calendar keys', () => {
+    expect(convertFiscalKey('FY2025', 'month', october)).toBe('2024-10');
+    expect(convertFiscalKey('FY2025-Q4', 'day', october)).toBe('2025-07-01');
+    expect(convertFiscalKey('FY2025-Q4', 'hour', october)).toBe('2025-07-01T00');
+    expect(parseFiscalKey('FY2025-Q2', october)).toEqual(new Date(2025, 0, 1));
+    expect(getFiscalMonthKeys('FY2025-Q1', october)).toEqual(['2024-10', '2024-11', '2024-12']);
+    expect(getFiscalMonthKeys('FY2025', october)).toHaveLength(12);
+    expect(getFiscalKeyInterval('FY2025', october)).toEqual({
+      start: new Date(2024, 9, 1),
+      end: new Date(2025, 8, 30, 23, 59, 59, 999),
+    });
+
+    const quarter: FiscalQuarterKey = convertToFiscalKey('2025-03', 'fiscalQuarter', october);
+    expectTypeOf(quarter).toEqualTypeOf<FiscalQuarterKey>();
+    expectTypeOf(convertFiscalKey('FY2025', 'month', october)).toEqualTypeOf<MonthKey>();
+    expectTypeOf(convertFiscalKey('FY2025', 'hour', october)).toEqualTypeOf<HourKey>();
+    expectTypeOf(convertFiscalKey('FY2025', 'minute', october)).toEqualTypeOf<MinuteKey>();
+  });
+
+  it('should round-trip every month for any start month', () => {
+    for (let startMonth = 1; startMonth <= 12; startMonth++) {
+      const options = { fiscalYearStartMonth: startMonth as 1 };
+      for (const month of getFiscalMonthKeys('FY2025', options)) {
+        expect(convertToFiscalKey(month, 'fiscalYear', options)).toBe('FY2025');
+      }
+    }
+  });
+
+  it('should format fiscal keys', () => {
+    expect(formatFriendlyDate('FY2025')).toBe('FY2025');
+    expect(formatFriendlyDate('FY2025-Q1')).toBe('Q1 FY2025');
+    expect(normalizeSpaces(formatFriendlyDate('FY2025-Q1', 'FY2025-Q3'))).toBe('Q1 – Q3 FY2025');
+    expect(normalizeSpaces(formatFriendlyDate('FY2024-Q3', 'FY2025-Q2'))).toBe('Q3 FY2024 – Q2 FY2025');
+    expect(normalizeSpaces(formatFriendlyDate('FY2024', 'FY2026'))).toBe('FY2024 – FY2026');
+  });
+});
+
+describe('Retail Calendar', () => {
+  it('should recognize and build retail keys', () => {
+    expect(isRetailPeriodKey('R2024-P03')).toBe(true);
+    expect(isRetailPeriodKey('R2024-P13')).toBe(false);
+    expect(isRetailPeriodKey('R2024-P3')).toBe(false);
+    expect(isRetailQuarterKey('R2024-Q2')).toBe(true);
+    expect(isRetailYearKey('R2024')).toBe(true);
+    expect(isRetailYearKey('2024')).toBe(false);
+    expect(toRetailPeriodKey(2024, 3)).toBe('R2024-P03');
+    expect(parseRetailPeriodKey('R2024-P03')).toEqual({ year: 2024, period: 3 });
+  });
+
+  it('should start retail years on the Sunday nearest February 1st', () => {
+    expect(parseRetailKey('R2024')).toEqual(new Date(2024, 1, 4));
+    expect(parseRetailKey('R2023')).toEqual(new Date(2023, 0, 29));
+    expect(dateToRetailYearKey(new Date(2024, 1, 3))).toBe('R2023');
+    expect(dateToRetailYearKey(new Date(2024, 1, 4))).toBe('R2024');
+    expect(dateToRetailYearKey(new Date(2024, 0, 15))).toBe('R2023');
+  });
+
+  it('should split quarters into 4-5-4 periods by default', () => {
+    const weeks = Array.from({ length: 12 }, (_, i) => getRetailWeekKeys(toRetailPeriodKey(2024, i + 1)).length);
+    expect(weeks).toEqual([4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 5, 4]);
+    expect(dateToRetailPeriodKey(new Date(2024, 2, 3))).toBe('R2024-P02');
+    expect(dateToRetailQuarterKey(new Date(2024, 4, 5))).toBe('R2024-Q2');
+    expect(getRetailWeekKeys('R2024-Q1', { retailPattern: '5-4-4' })).toHaveLength(13);
+    expect(getRetailWeekKeys('R2024-P01', { retailPattern: '5-4-4' })).toHaveLength(5);
+    expect(getRetailWeekKeys('R2024-P03', { retailPattern: '4-4-5' })).toHaveLength(5);
+  });
+
+  it('should add the 53rd week to the last period', () => {
+    expect(getRetailWeekKeys('R2023')).toHaveLength(53);
+    expect(getRetailWeekKeys('R2024')).toHaveLength(52);
+    expect(getRetailWeekKeys('R2023-P12')).toHaveLength(5);
+    expect(getRetailKeyInterval('R2023')).toEqual({
+      start: new Date(2023, 0, 29),
+      end: new Date(2024, 1, 3, 23, 59, 59, 999),
+    });
+  });
+
+  it('should map week keys to retail periods and back', () => {
+    expect(getRetailWeekKeys('R2024-P01')).toEqual(['2024-W06', '2024-W07', '2024-W08', '2024-W09']);
+    expect(convertToRetailKey('2024-W10', 'retailPeriod')).toBe('R2024-P02');
+    expect(convertToRetailKey('2024-05-05', 'retailQuarter')).toBe('R2024-Q2');
+    expect(convertRetailKey('R2024-P02', 'week')).toBe('2024-W10');
+    expect(convertRetailKey('R2024-P02', 'day')).toBe('2024-03-03');
+    expect(convertRetailKey('R2024-P02', 'minute')).toBe('2024-03-03T00:00');
+    expect(getRetailWeekKeys('R2024-P01', { weekSystem: 'iso' })).toEqual(['2024-W05', '2024-W06', '2024-W07', '2024-W08']);
+
+    const period: RetailPeriodKey = convertToRetailKey('2024-W10', 'retailPeriod');
+    expectTypeOf(period).toEqualTypeOf<RetailPeriodKey>();
+    expectTypeOf(convertRetailKey('R2024-P02', 'hour')).toEqualTypeOf<HourKey>();
+    expectTypeOf(convertRetailKey('R2024-P02', 'minute')).toEqualTypeOf<MinuteKey>();
+  });
+
+  it('should format retail keys', () => {
+    expect(formatFriendlyDate('R2024-P03')).toBe('P3 R2024');
+    expect(formatFriendlyDate('R2024-Q2')).toBe('Q2 R2024');
+    expect(formatFriendlyDate('R2024')).toBe('R2024');
+    expect(normalizeSpaces(formatFriendlyDate('R2024-P03', 'R2024-P05'))).toBe('P3 – P5 R2024');
+    expect(normalizeSpaces(formatFriendlyDate('R2023-P12', 'R2024-P01'))).toBe('P12 R2023 – P1 R2024');
+  });
+});
+
+describe('Grouping', () => {
+  const records = [
+    { id: 1, at: new Date(2024, 0, 15, 9) },
+    { id: 2, at: new Date(2024, 0, 17, 12) },
+    { id: 3, at: new Date(2024, 0, 15, 18) },
+    { id: 4, at: new Date(2024, 1, 2, 8) },
+  ];
+
+  it('should group items into ordered buckets', () => {
+    const byDay = groupByDateKey(records, (record) => record.at, 'day');
+    expect([...byDay.keys()]).toEqual(['2024-01-15', '2024-01-17', '2024-02-02']);
+    expect(byDay.get('2024-01-15')?.map((record) => record.id)).toEqual([1, 3]);
+
+    const byMonth = groupByDateKey(records, (record) => record.at, 'month');
+    expect([...byMonth.entries()].map(([key, items]) => [key, items.length])).toEqual([
+      ['2024-01', 3],
+      ['2024-02', 1],
+    ]);
+    expectTypeOf(byMonth).toEqualTypeOf<Map<MonthKey, typeof records>>();
+  });
+
+  it('should accept timestamps and follow the week rules', () => {
+    const timestamps = [new Date(2023, 11, 31).getTime(), new Date(2024, 0, 1).getTime()];
+    expect([...groupByDateKey(timestamps, (time) => time, 'week').keys()]).toEqual(['2024-W01']);
+    expect([...groupByDateKey(timestamps, (time) => time, 'week', { weekSystem: 'iso' }).keys()]).toEqual([
+      '2023-W52',
+      '2024-W01',
+    ]);
+  });
+
+  it('should bucket instants in a time zone', () => {
+    const instants = [new Date('2024-01-15T16:00:00Z'), new Date('2024-01-15T14:00:00Z')];
+    const groups = groupByDateKey(instants, (date) => date, 'day', { timeZone: 'Asia/Tokyo' });
+    expect([...groups.keys()]).toEqual(['2024-01-15', '2024-01-16']);
+  });
+
+  it('should bucket instants in a time zone across its transitions', () => {
+    const windows: [string, string][] = [
+      ['America/New_York', '2024-11-03T03:00:00Z'],
+      ['Australia/Lord_Howe', '2024-04-06T12:00:00Z'],
+      ['Asia/Kolkata', '2024-01-15T16:00:00Z'],
+      // Moved from +05:30 to +05:45 at 18:30 UTC, midway through a UTC hour
+      ['Asia/Kathmandu', '1985-12-31T15:00:00Z'],
+    ];
+    for (const hostTimeZone of ['UTC', 'America/New_York']) {
+      withHostTimeZone(hostTimeZone, () => {
+        for (const [timeZone, from] of windows) {
+          const instants = Array.from({ length: 100 }, (_, i) => new Date(new Date(from).getTime() + i * 7 * 60_000));
+          for (const type of ['minute', 'hour', 'day'] as const) {
+            const groups = groupByDateKey(instants, (date) => date, type, { timeZone });
+            for (const [key, dates] of groups) {
+              for (const date of dates) {
+                expect(formatDateAsKey(date, type, { timeZone })).toBe(key);
+              }
+            }
+          }
+        }
+      });
+    }
+  });
+
+  it('should fill empty buckets between the bounds', () => {
+    const groups = groupByDateKey(records, (record) => record.at, 'day', { fill: ['2024-01-14', '2024-01-17'] });
+    expect([...groups.keys()]).toEqual(['2024-01-14', '2024-01-15', '2024-01-16', '2024-01-17', '2024-02-02']);
+    expect(groups.get('2024-01-16')).toEqual([]);
+
+    const weeks = groupByDateKey([], (date: Date) => date, 'week', { fill: ['2024-01', '2024-01'] });
+    expect([...weeks.keys()]).toEqual(['2024-W01', '2024-W02', '2024-W03', '2024-W04', '2024-W05']);
+  });
+
+  it('should group large arrays', () => {
+    const start = new Date(2024, 0, 1).getTime();
+    const items = Array.from({ length: 100_000 }, (_, i) => start + i * 60_000);
+    const groups = groupByDateKey(items, (time) => time, 'hour');
+    expect(groups.size).toBe(Math.ceil(100_000 / 60));
+    expect(groups.get('2024-01-01T00')).toHaveLength(60);
+  });
+});
+
+describe('Rollups', () => {
+  it('should sum values into a coarser resolution', () => {
+    const daily = { '2024-01-30': 5, '2024-01-31': 3, '2024-02-01': 2 } as const;
+    expect(rollupDateKeyed(daily, 'month')).toEqual({ '2024-01': 8, '2024-02': 2 });
+    expect(rollupDateKeyed(daily, 'year')).toEqual({ '2024': 10 });
+    expect(rollupDateKeyed({ '2023-12': 1, '2024-01': 2, '2024-Q1': 3 }, 'year')).toEqual({ '2023': 1, '2024': 5 });
+
+    const monthly = rollupDateKeyed(daily, 'month');
+    expectTypeOf(monthly).toEqualTypeOf<Partial<Record<MonthKey, number>>>();
+  });
+
+  it('should combine values with a custom reducer', () => {
+    const daily = { '2024-01-01': 1, '2024-01-02': 9, '2024-01-08': 4 } as const;
+    expect(rollupDateKeyed(daily, 'week', Math.max)).toEqual({ '2024-W01': 9, '2024-W02': 4 });
+    expect(rollupDateKeyed(daily, 'week', undefined, { weekSystem: 'iso' })).toEqual({ '2024-W01': 10, '2024-W02': 4 });
+  });
+
+  it('should skip missing values and return keys in chronological order', () => {
+    const record: Partial<Record<DayKey, number>> = { '2024-03-01': 1, '2024-01-01': 2, '2024-02-01': undefined };
+    expect(Object.keys(rollupDateKeyed(record, 'month'))).toEqual(['2024-01', '2024-03']);
+  });
+
+  it('should apply the week policy to weeks spanning two months', () => {
+    // 2024-W05 runs from January 28 to February 3: 4 days in January, 3 in February
+    const weekly = { '2024-W05': 70 } as const;
+    expect(rollupDateKeyed(weekly, 'month')).toEqual({ '2024-01': 70 });
+    expect(rollupDateKeyed(weekly, 'month', undefined, { weekPolicy: 'majority' })).toEqual({ '2024-01': 70 });
+    expect(rollupDateKeyed(weekly, 'month', undefined, { weekPolicy: 'split' })).toEqual({ '2024-01': 40, '2024-02': 30 });
+    // 2024-W18 runs from April 28 to May 4: 3 days in April, 4 in May
+    expect(rollupDateKeyed({ '2024-W18': 7 }, 'month')).toEqual({ '2024-04': 7 });
+    expect(rollupDateKeyed({ '2024-W18': 7 }, 'month', undefined, { weekPolicy: 'majority' })).toEqual({ '2024-05': 7 });
+  });
+
+  it('should reject rolling up to a finer or equal resolution', () => {
+    expect(() => rollupDateKeyed({ '2024-01': 1 }, 'day')).toThrow();
+    expect(() => rollupDateKeyed({ '2024-01': 1 }, 'month')).toThrow();
+  });
+});
+
+describe('Date Key Ranges', () => {
+  const q1 = { start: '2024-01', end: '2024-03' } as const;
+
+  it('should check overlaps across resolutions', () => {
+    expect(dateKeyRangesOverlap(q1, { start: '2024-03-31', end: '2024-04-15' })).toBe(true);
+    expect(dateKeyRangesOverlap(q1, { start: '2024-04-01', end: '2024-04-15' })).toBe(false);
+    expect(dateKeyRangesOverlap(q1, { start: '2024-W14', end: '2024-W14' })).toBe(true);
+    expect(dateKeyRangesOverlap({ start: '2024-01-15T13', end: '2024-01-15T15' }, { start: '2024-01-15', end: '2024-01-15' })).toBe(true);
+  });
+
+  it('should check containment of keys and ranges', () => {
+    expect(dateKeyRangeContains(q1, '2024-02-15')).toBe(true);
+    expect(dateKeyRangeContains(q1, '2024-Q1')).toBe(true);
+    expect(dateKeyRangeContains(q1, '2024-W14')).toBe(false);
+    expect(dateKeyRangeContains({ start: '2024', end: '2024' }, { start: '2024-Q2', end: '2024-Q3' })).toBe(true);
+    expect(dateKeyRangeContains({ start: '2024-01-15', end: '2024-12-31' }, '2024-01')).toBe(false);
+  });
+
+  it('should merge overlapping and adjacent ranges', () => {
+    expect(
+      normalizeDateKeyRanges([
+        { start: '2024-03', end: '2024-03' },
+        { start: '2024-01-01', end: '2024-02-29' },
+        { start: '2024-06', end: '2024-06' },
+        { start: '2024-06-10', end: '2024-06-12' },
+      ]),
+    ).toEqual([
+      { start: '2024-01-01', end: '2024-03' },
+      { start: '2024-06', end: '2024-06' },
+    ]);
+    expect(normalizeDateKeyRanges([{ start: '2024-01-01', end: '2024-01-30' }, { start: '2024-02', end: '2024-02' }])).toHaveLength(2);
+  });
+
+  it('should union and intersect sets of ranges', () => {
+    expect(unionDateKeyRanges([{ start: '2024-01', end: '2024-02' }], [{ start: '2024-02-15', end: '2024-03-10' }])).toEqual([
+      { start: '2024-01', end: '2024-03-10' },
+    ]);
+    expect(intersectDateKeyRanges([q1], [{ start: '2024-02-15', end: '2024-06-30' }])).toEqual([{ start: '2024-02-15', end: '2024-03' }]);
+    expect(intersectDateKeyRanges([q1], [{ start: '2024-05', end: '2024-06' }])).toEqual([]);
+  });
+
+  it('should subtract ranges', () => {
+    expect(subtractDateKeyRanges([{ start: '2024', end: '2024' }], [{ start: '2024-03', end: '2024-05' }])).toEqual([
+      { start: '2024', end: '2024-02' },
+      { start: '2024-06', end: '2024' },
+    ]);
+    expect(
+      subtractDateKeyRanges(
+        [{ start: '2024', end: '2024' }],
+        [
+          { start: '2023-03', end: '2024-05' },
+          { start: '2024-12-25', end: '2025-01-10' },
+        ],
+      ),
+    ).toEqual([{ start: '2024-06', end: '2024-12-24' }]);
+    expect(subtractDateKeyRanges([q1], [q1])).toEqual([]);
+  });
+
+  it('should reject ranges that start after they end', () => {
+    expect(() => normalizeDateKeyRanges([{ start: '2024-03', end: '2024-01' }])).toThrow(/after/);
+  });
+});
+
+describe('Ordering', () => {
+  it('should compare keys of mixed resolutions chronologically', () => {
+    expect(compareDateKeys('2024-W01', '2024-01-15')).toBeLessThan(0);
+    expect(compareDateKeys('2024-02', '2024-01-31')).toBeGreaterThan(0);
+    expect(compareDateKeys('2024-01', '2024-01-01')).toBeGreaterThan(0);
+    expect(compareDateKeys('2024-Q1', '2024-03', { by: 'end' })).toBeLessThan(0);
+    expect(compareDateKeys('2024-03-15', '2024-03-15')).toBe(0);
+  });
+
+  it('should sort keys of mixed resolutions', () => {
+    const keys: DateKey[] = ['2024-01-15', '2024-W01', '2024-01', '2023', '2024-01-01T09'];
+    expect(sortDateKeys(keys)).toEqual(['2023', '2024-W01', '2024-01', '2024-01-01T09', '2024-01-15']);
+    expect(sortDateKeys(keys, { by: 'end' })).toEqual(['2023', '2024-01-01T09', '2024-W01', '2024-01-15', '2024-01']);
+    expect(keys[0]).toBe('2024-01-15');
+  });
+
+  it('should respect week numbering when sorting', () => {
+    expect(sortDateKeys(['2024-01-01', '2024-W01'])).toEqual(['2024-W01', '2024-01-01']);
+    expect(sortDateKeys(['2024-W01', '2024-01-01'], { weekSystem: 'iso' })).toEqual(['2024-01-01', '2024-W01']);
+  });
+
+  it('should find the first and last keys', () => {
+    expect(minDateKey(['2024-01-15', '2024-W01', '2024-01'])).toBe('2024-W01');
+    expect(maxDateKey(['2024-12-31', '2024', '2024-W52'])).toBe('2024-12-31');
+    expect(minDateKey([])).toBeUndefined();
+    expect(maxDateKey([])).toBeUndefined();
+  });
+
+  it('should check whether periods come before or after each other', () => {
+    expect(isBefore('2024-01-31', '2024-02')).toBe(true);
+    expect(isBefore('2024-W05', '2024-02')).toBe(false);
+    expect(isAfter('2024-Q2', '2024-03-31')).toBe(true);
+    expect(isAfter('2024-W01', '2023')).toBe(false);
+    expect(isAfter('2024-W01', '2023', { weekSystem: 'iso' })).toBe(true);
+  });
+
+  it('should check whether a period covers another', () => {
+    expect(isSameOrContains('2024-Q1', '2024-02-15')).toBe(true);
+    expect(isSameOrContains('2024-01', '2024-01')).toBe(true);
+    expect(isSameOrContains('2024-01-15', '2024-01')).toBe(false);
+    expect(isSameOrContains('2024', '2024-W01')).toBe(false);
+  });
+});
+
+describe('Ordinals', () => {
+  it('should count periods from 1970', () => {
+    expect(dateKeyToOrdinal('1970-01-01T00:00')).toBe(0);
+    expect(dateKeyToOrdinal('2024-01-15T13:45')).toBe(19737 * 1440 + 13 * 60 + 45);
+    expect(dateKeyToOrdinal('2024-01-15T13')).toBe(19737 * 24 + 13);
+    expect(dateKeyToOrdinal('2024-01-15')).toBe(19737);
+    expect(dateKeyToOrdinal('1970-W01')).toBe(0);
+    expect(dateKeyToOrdinal('2024-01')).toBe(648);
+    expect(dateKeyToOrdinal('2024-Q2')).toBe(217);
+    expect(dateKeyToOrdinal('1969')).toBe(-1);
+    expect(dateKeyToOrdinal('1969-12-31')).toBe(-1);
+  });
+
+  it('should round-trip ordinals at every resolution', () => {
+    const keys: DateKey[] = ['1969-12-31T23:59', '2024-02-29T07', '2024-02-29', '2024-W01', '2024-W52', '1969-11', '1969-Q1', '2024'];
+    for (const key of keys) {
+      expect(ordinalToDateKey(dateKeyToOrdinal(key), getDateKeyType(key))).toBe(key);
+    }
+  });
+
+  it('should support arithmetic on ordinals', () => {
+    expect(ordinalToDateKey(dateKeyToOrdinal('2024-02-28') + 2, 'day')).toBe('2024-03-01');
+    expect(ordinalToDateKey(dateKeyToOrdinal('2024-W52') + 2, 'week')).toBe('2025-W02');
+    expect(ordinalToDateKey(dateKeyToOrdinal('2024-12') + 1, 'month')).toBe('2025-01');
+    expect(ordinalToDateKey(dateKeyToOrdinal('2024-01-01T00:00') - 1, 'minute')).toBe('2023-12-31T23:59');
+    expect(dateKeyToOrdinal('2024-03') - dateKeyToOrdinal('2023-11')).toBe(4);
+  });
+
+  it('should number weeks by the week system', () => {
+    expect(dateKeyToOrdinal('2024-W01', { weekSystem: 'iso' }) - dateKeyToOrdinal('2023-W52', { weekSystem: 'iso' })).toBe(1);
+    expect(ordinalToDateKey(dateKeyToOrdinal('2020-W53', { weekSystem: 'iso' }) + 1, 'week', { weekSystem: 'iso' })).toBe('2021-W01');
+  });
+
+  it('should sort the same way as the keys', () => {
+    const days: DateKey[] = ['2023-12-31', '2024-01-01', '2024-01-15', '2024-02-01'];
+    const ordinals = days.map((key) => dateKeyToOrdinal(key));
+    expect([...ordinals].sort((a, b) => a - b)).toEqual(ordinals);
+  });
+
+  it('should reject invalid input', () => {
+    expect(() => dateKeyToOrdinal('January' as DayKey)).toThrow(DateKeyError);
+    expect(() => ordinalToDateKey(1.5, 'day')).toThrow(/Invalid ordinal/);
+  });
+});
+
+// The calendar engine replaced date-fns; these check it against the date-fns implementation it replaced
+describe('Calendar Engine Parity', () => {
+  const weekOptionsList: WeekOptions[] = [{}, { weekSystem: 'iso' }, { weekStartsOn: 6, firstWeekContainsDate: 7 }];
+  const toDateFnsWeekOptions = (options: WeekOptions) => {
+    const iso = options.weekSystem === 'iso';
+    return {
+      weekStartsOn: options.weekStartsOn ?? (iso ? 1 : 0),
+      // date-fns types this as 1 | 4, but accepts any day of the week
+      firstWeekContainsDate: (options.firstWeekContainsDate ?? (iso ? 4 : 1)) as dateFns.FirstWeekContainsDate,
+    } as const;
+  };
+
+  const legacyFormatDateAsKey = (date: Date, type: DateKeyType, options: WeekOptions = {}): string => {
+    switch (type) {
+      case 'minute':
+        return dateFns.format(date, "yyyy-MM-dd'T'HH:mm");
+      case 'hour':
+        return dateFns.format(date, "yyyy-MM-dd'T'HH");
+      case 'day':
+        return dateFns.format(date, 'yyyy-MM-dd');
+      case 'week':
+        return dateFns.format(date, "YYYY-'W'ww", { ...toDateFnsWeekOptions(options), useAdditionalWeekYearTokens: true });
+      case 'month':
+        return dateFns.format(date, 'yyyy-MM');
+      case 'quarter':
+        return dateFns.format(date, "yyyy-'Q'Q");
+      case 'year':
+        return dateFns.format(date, 'yyyy');
+    }
+  };
+
+  const legacyParseDateKey = (key: DateKey, options: WeekOptions = {}): Date => {
+    if (isWeekKey(key)) {
+      const weekOptions = toDateFnsWeekOptions(options);
+      const date = dateFns.parse(key, "YYYY-'W'ww", new Date(), { ...weekOptions, useAdditionalWeekYearTokens: true });
+      return dateFns.parseISO(dateFns.format(dateFns.startOfWeek(date, weekOptions), 'yyyy-MM-dd'));
+    }
+    if (isQuarterKey(key)) {
+      const [year, quarter] = key.split('-Q');
+      return dateFns.parseISO(`${year}-${String((Number(quarter) - 1) * 3 + 1).padStart(2, '0')}-01`);
+    }
+    return dateFns.parseISO(isMonthKey(key) ? `${key}-01` : isYearKey(key) ? `${key}-01-01` : key);
+  };
+
+  const legacyAdders = {
+    minute: dateFns.addMinutes,
+    hour: dateFns.addHours,
+    day: dateFns.addDays,
+    week: dateFns.addWeeks,
+    month: dateFns.addMonths,
+    quarter: dateFns.addQuarters,
+    year: dateFns.addYears,
+  };
+
+  const legacyDiff = (start: Date, end: Date, type: DateKeyType, options: WeekOptions): number => {
+    switch (type) {
+      case 'minute':
+        return dateFns.differenceInMinutes(end, start);
+      case 'hour':
+        return dateFns.differenceInHours(end, start);
+      case 'day':
+        return dateFns.differenceInCalendarDays(end, start);
+      case 'week':
+        return dateFns.differenceInCalendarWeeks(end, start, toDateFnsWeekOptions(options));
+      case 'month':
+        return dateFns.differenceInCalendarMonths(end, start);
+      case 'quarter':
+        return dateFns.differenceInCalendarQuarters(end, start);
+      case 'year':
+        return dateFns.differenceInCalendarYears(end, start);
+    }
+  };
+
+  // Every 11th day from 1899 to 2101 cycles through each weekday, month length, and century leap rule,
+  // and the years around 1000 check that years below 1000 are zero-padded
+  const dates: Date[] = [];
+  for (const [from, to] of [[995, 1006], [1899, 2102]]) {
+    const first = new Date(2000, 0, 1, 13, 45);
+    first.setFullYear(from);
+    for (let date = first; date.getFullYear() < to; date = dateFns.addDays(date, 11)) {
+      dates.push(date);
+    }
+  }
+  const types: DateKeyType[] = ['minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+  // Hosts with DST, where local dates have gaps and repeated hours, besides a host without.
+  // Local dates are slow to compute with DST, so those hosts check every 10th date of the sample
+  const hostTimeZones = ['UTC', 'America/New_York', 'Australia/Lord_Howe'];
+
+  // Mismatches are collected rather than asserted one by one, which keeps tens of thousands of checks fast
+  const findMismatches = (
+    sample: Date[],
+    check: (options: WeekOptions, date: Date, type: DateKeyType, hostTimeZone: string) => string | undefined,
+  ) => {
+    const mismatches: string[] = [];
+    for (const hostTimeZone of hostTimeZones) {
+      withHostTimeZone(hostTimeZone, () => {
+        for (const options of weekOptionsList) {
+          for (const date of hostTimeZone === 'UTC' ? sample : sample.filter((_, index) => index % 10 === 0)) {
+            for (const type of types) {
+              const mismatch = check(options, date, type, hostTimeZone);
+              if (mismatch) mismatches.push(`${hostTimeZone} ${JSON.stringify(options)} ${mismatch}`);
+            }
+          }
+        }
+      });
+    }
+    return mismatches;
+  };
+
+  it('should format dates as keys like date-fns', () => {
+    const mismatches = findMismatches(dates, (options, date, type) => {
+      const key = formatDateAsKey(date, type, options);
+      const expected = legacyFormatDateAsKey(date, type, options);
+      return key === expected ? undefined : `${date.toISOString()} ${type}: ${key} !== ${expected}`;
+    });
+    expect(mismatches).toEqual([]);
+  });
+
+  it('should parse keys like date-fns', () => {
+    const mismatches = findMismatches(dates, (options, date, type) => {
+      const key = formatDateAsKey(date, type, options);
+      const parsed = parseDateKey(key, options).getTime();
+      const expected = legacyParseDateKey(key, options).getTime();
+      return parsed === expected ? undefined : `${key}: ${parsed} !== ${expected}`;
+    });
+    expect(mismatches).toEqual([]);
+  });
+
+  it('should add to and diff keys like date-fns', () => {
+    const amounts = [-54, -1, 1, 7, 53, 400];
+    const mismatches = findMismatches(dates.filter((_, index) => index % 10 === 0), (options, date, type, hostTimeZone) => {
+      // Hour and minute keys count wall-clock periods, which only match the elapsed time date-fns counts without DST
+      if ((type === 'hour' || type === 'minute') && hostTimeZone !== 'UTC') return undefined;
+      const key = formatDateAsKey(date, type, options);
+      for (const amount of amounts) {
+        const added = addToDateKey(key, amount, options);
+        const expected = legacyFormatDateAsKey(legacyAdders[type](legacyParseDateKey(key, options), amount), type, options);
+        if (added !== expected) return `${key} + ${amount}: ${added} !== ${expected}`;
+        const diff = diffDateKeys(key, added, options);
+        const expectedDiff = legacyDiff(legacyParseDateKey(key, options), legacyParseDateKey(added, options), type, options);
+        if (diff !== expectedDiff) return `${key} to ${added}: ${diff} !== ${expectedDiff}`;
+      }
+      return undefined;
+    });
+    expect(mismatches).toEqual([]);
+  });
+
+  it('should treat out of range values like date-fns', () => {
+    const keys: DateKey[] = ['2024-02-30', '2023-02-29', '2024-02-29', '1900-02-29', '2000-02-29', '2024-13', '2024-00', '2024-01-15T24', '2024-01-15T24:00', '2024-01-15T25', '2024-01-15T13:60'];
+    for (const key of keys) {
+      expect(parseDateKey(key).getTime()).toEqual(legacyParseDateKey(key).getTime());
+    }
+    expect(() => parseDateKey('2024-W54')).toThrow(RangeError);
+    expect(() => parseDateKey('2024-W00')).toThrow(RangeError);
+    expect(() => formatDateAsKey(new Date(NaN), 'day')).toThrow(RangeError);
+  });
+});
+
+describe('Temporal Interop', () => {
+  // A stand-in for the Temporal namespace that records the fields each object is created from
+  class FakePlainDate {
+    constructor(readonly year: number, readonly month: number, readonly day: number) {}
+    static from(fields: PlainDateLike) {
+      return new FakePlainDate(fields.year, fields.month, fields.day);
+    }
+  }
+  class FakePlainYearMonth {
+    constructor(readonly year: number, readonly month: number) {}
+    static from(fields: PlainYearMonthLike) {
+      return new FakePlainYearMonth(fields.year, fields.month);
+    }
+  }
+  class FakeZonedDateTime {
+    constructor(readonly fields: ZonedDateTimeLike & { timeZone: string }) {}
+    get year() { return this.fields.year; }
+    get month() { return this.fields.month; }
+    get day() { return this.fields.day; }
+    get hour() { return this.fields.hour; }
+    get minute() { return this.fields.minute; }
+    static from(fields: ZonedDateTimeLike & { timeZone: string }) {
+      return new FakeZonedDateTime(fields);
+    }
+  }
+  const temporal = { PlainDate: FakePlainDate, PlainYearMonth: FakePlainYearMonth, ZonedDateTime: FakeZonedDateTime };
+
+  afterEach(() => {
+    delete (globalThis as { Temporal?: unknown }).Temporal;
+  });
+
+  it('should convert plain dates and months to keys', () => {
+    const plainDate = temporal.PlainDate.from({ year: 2024, month: 1, day: 15 });
+    expect(fromPlainDate(plainDate)).toBe('2024-01-15');
+    expect(fromPlainDate(plainDate, 'week')).toBe('2024-W03');
+    expect(fromPlainDate({ year: 2024, month: 1, day: 1 }, 'week', { weekSystem: 'iso' })).toBe('2024-W01');
+    expect(fromPlainDate({ year: 2024, month: 5, day: 1 }, 'quarter')).toBe('2024-Q2');
+    expect(fromPlainYearMonth({ year: 2024, month: 3 })).toBe('2024-03');
+    expectTypeOf(fromPlainDate(plainDate)).toEqualTypeOf<DayKey>();
+  });
+
+  it('should convert zoned date times by their wall-clock time', () => {
+    const zoned = temporal.ZonedDateTime.from({ year: 2024, month: 3, day: 10, hour: 2, minute: 30, timeZone: 'Asia/Tokyo' });
+    expect(fromZonedDateTime(zoned, 'minute')).toBe('2024-03-10T02:30');
+    expect(fromZonedDateTime(zoned, 'hour')).toBe('2024-03-10T02');
+    expect(fromZonedDateTime(zoned, 'month')).toBe('2024-03');
+  });
+
+  it('should convert keys to plain dates and months at the start of their period', () => {
+    expect(toPlainDate('2024-W01', { temporal })).toEqual(new FakePlainDate(2023, 12, 31));
+    expect(toPlainDate('2024-01-15T13:45', { temporal })).toEqual(new FakePlainDate(2024, 1, 15));
+    expect(toPlainYearMonth('2024-Q2', { temporal })).toEqual(new FakePlainYearMonth(2024, 4));
+    expectTypeOf(toPlainDate('2024-01-15', { temporal })).toEqualTypeOf<FakePlainDate>();
+  });
+
+  it('should get the zoned range of a key with an exclusive end', () => {
+    const { start, end } = dateKeyToZonedRange('2024-03-10', 'America/New_York', { temporal });
+    expect(start.fields).toEqual({ year: 2024, month: 3, day: 10, hour: 0, minute: 0, timeZone: 'America/New_York' });
+    expect(end.fields).toEqual({ year: 2024, month: 3, day: 11, hour: 0, minute: 0, timeZone: 'America/New_York' });
+
+    const hour = dateKeyToZonedRange('2024-12-31T23', 'UTC', { temporal });
+    expect(hour.end.fields).toMatchObject({ year: 2025, month: 1, day: 1, hour: 0 });
+
+    const week = dateKeyToZonedRange('2024-W52', 'UTC', { temporal, weekSystem: 'iso' });
+    expect(week.start.fields).toMatchObject({ month: 12, day: 23 });
+    expect(week.end.fields).toMatchObject({ month: 12, day: 30 });
+  });
+
+  it('should use the global Temporal namespace when available', () => {
+    expect(() => toPlainDate('2024-01-15')).toThrow(/Temporal is not available/);
+    (globalThis as { Temporal?: unknown }).Temporal = temporal;
+    expect(toPlainDate('2024-01-15')).toEqual(new FakePlainDate(2024, 1, 15));
+  });
+});
+
+describe('Calendar Grids', () => {
+  it('should build a 6 row month grid with padding days', () => {
+    const grid = getMonthGrid('2024-02', { now: '2024-02-14' });
+    expect(grid.month).toBe('2024-02');
+    expect(grid.weekdays).toEqual(['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']);
+    expect(grid.weeks).toHaveLength(6);
+    expect(grid.weeks.every((week) => week.days.length === 7)).toBe(true);
+    expect(grid.weeks[0].days[0]).toEqual({ key: '2024-01-28', inMonth: false, isToday: false });
+    expect(grid.weeks[0].days[4]).toEqual({ key: '2024-02-01', inMonth: true, isToday: false });
+    expect(grid.weeks[5].days[6]).toEqual({ key: '2024-03-09', inMonth: false, isToday: false });
+    expect(grid.weeks.flatMap((week) => week.days).filter((day) => day.inMonth)).toHaveLength(29);
+    expect(grid.weeks.flatMap((week) => week.days).filter((day) => day.isToday).map((day) => day.key)).toEqual(['2024-02-14']);
+  });
+
+  it('should label rows with the week keys of their days', () => {
+    for (const options of [{}, { weekSystem: 'iso' as const }, { weekStartsOn: 6 as const }]) {
+      for (const week of getMonthGrid('2021-01', options).weeks) {
+        for (const day of week.days) {
+          expect(dateToWeekKey(parseDateKey(day.key), options)).toBe(week.week);
+        }
+      }
+    }
+    expect(getMonthGrid('2021-01', { weekSystem: 'iso' }).weeks[0].week).toBe('2020-W53');
+  });
+
+  it('should start rows on the configured weekday', () => {
+    const grid = getMonthGrid('2024-02', { weekSystem: 'iso' });
+    expect(grid.weekdays).toEqual(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']);
+    expect(grid.weeks[0].days[0].key).toBe('2024-01-29');
+    expect(getMonthGrid('2024-02', { weekStartsOn: 6 }).weeks[0].days[0].key).toBe('2024-01-27');
+  });
+
+  it('should format weekday labels in the requested locale', () => {
+    expect(getMonthGrid('2024-02', { weekSystem: 'iso', locale: 'de-DE' }).weekdays).toEqual(['Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa', 'So']);
+    expect(getMonthGrid('2024-02', { weekdayFormat: 'long' }).weekdays[0]).toBe('Sunday');
+    expect(getMonthGrid('2024-02', { weekdayFormat: 'narrow' }).weekdays).toEqual(['S', 'M', 'T', 'W', 'T', 'F', 'S']);
+  });
+
+  it('should only include rows with days of the month when weeks are not fixed', () => {
+    expect(getMonthGrid('2026-02', { fixedWeeks: false }).weeks).toHaveLength(4);
+    expect(getMonthGrid('2024-06', { fixedWeeks: false }).weeks).toHaveLength(6);
+    expect(getMonthGrid('2024-02', { fixedWeeks: false }).weeks).toHaveLength(5);
+  });
+
+  it('should build grids for every month of a year', () => {
+    const grid = getYearGrid('2024', { now: '2024-07-04', weekSystem: 'iso' });
+    expect(grid.year).toBe('2024');
+    expect(grid.weekdays[0]).toBe('Mon');
+    expect(grid.months.map((month) => month.month)).toEqual(eachDateKey('2024-01', '2024-12'));
+    expect(grid.months[6]).toEqual(getMonthGrid('2024-07', { now: '2024-07-04', weekSystem: 'iso' }));
+  });
+});
+
+describe('Business Days', () => {
+  it('should check working days', () => {
+    expect(isBusinessDay('2024-01-15')).toBe(true);
+    expect(isBusinessDay('2024-01-13')).toBe(false);
+    expect(isBusinessDay('2024-01-14T10:30')).toBe(false);
+    expect(isBusinessDay('2024-12-25', { holidays: ['2024-12-25'] })).toBe(false);
+    expect(isBusinessDay('2024-01-12', { weekendDays: [5, 6] })).toBe(false);
+    expect(isBusinessDay('2024-01-14', { weekendDays: [5, 6] })).toBe(true);
+    expect(() => isBusinessDay('2024-01' as DayKey)).toThrow(/day, hour, or minute/);
+  });
+
+  it('should accept holiday rules', () => {
+    const isNewYear = (dayKey: DayKey) => dayKey.endsWith('-01-01');
+    expect(isBusinessDay('2024-01-01', { holidays: isNewYear })).toBe(false);
+    expect(isBusinessDay('2024-01-02', { holidays: isNewYear })).toBe(true);
+  });
+
+  it('should observe weekend holidays on the nearest working day', () => {
+    const options = { holidays: ['2021-07-04', '2022-01-01'] as DayKey[], observedHolidays: 'nearest' as const };
+    expect(isBusinessDay('2021-07-05', options)).toBe(false);
+    expect(isBusinessDay('2021-12-31', options)).toBe(false);
+    expect(isBusinessDay('2022-01-03', options)).toBe(true);
+    expect(isBusinessDay('2021-07-05', { holidays: ['2021-07-04'] })).toBe(true);
+  });
+
+  it('should observe weekend holidays on the next free working day', () => {
+    const options = { holidays: ['2021-12-25', '2021-12-26'] as DayKey[], observedHolidays: 'next' as const };
+    expect(isBusinessDay('2021-12-27', options)).toBe(false);
+    expect(isBusinessDay('2021-12-28', options)).toBe(false);
+    expect(isBusinessDay('2021-12-29', options)).toBe(true);
+  });
+
+  it('should add working days', () => {
+    expect(addBusinessDays('2024-01-12', 1)).toBe('2024-01-15');
+    expect(addBusinessDays('2024-01-15', 5)).toBe('2024-01-22');
+    expect(addBusinessDays('2024-01-15', -1)).toBe('2024-01-12');
+    expect(addBusinessDays('2024-01-13', 1)).toBe('2024-01-15');
+    expect(addBusinessDays('2024-01-13', 0)).toBe('2024-01-13');
+    expect(addBusinessDays('2024-01-15T09:30', -1)).toBe('2024-01-12T09:30');
+    expect(addBusinessDays('2024-12-24', 1, { holidays: ['2024-12-25', '2024-12-26'] })).toBe('2024-12-27');
+    expect(addBusinessDays('2024-01-01', 260)).toBe('2024-12-30');
+  });
+
+  it('should count working days in periods and ranges', () => {
+    expect(countBusinessDays('2024-02')).toBe(21);
+    expect(countBusinessDays('2024-W03')).toBe(5);
+    expect(countBusinessDays('2024')).toBe(262);
+    expect(countBusinessDays('2024-01-13')).toBe(0);
+    expect(countBusinessDays({ start: '2024-12-23', end: '2024-12-31' }, { holidays: ['2024-12-25'] })).toBe(6);
+    expect(countBusinessDays({ start: '2024-01-15T09', end: '2024-01-16T17' })).toBe(2);
+  });
+
+  it('should find the next working day after a period', () => {
+    expect(nextBusinessDay('2024-01-12')).toBe('2024-01-15');
+    expect(nextBusinessDay('2024-03')).toBe('2024-04-01');
+    expect(nextBusinessDay('2024-12-24', { holidays: ['2024-12-25'] })).toBe('2024-12-26');
+  });
+
+  it('should reject calendars without working days', () => {
+    expect(() => isBusinessDay('2024-01-15', { weekendDays: [0, 1, 2, 3, 4, 5, 6] })).toThrow(/at least one working day/);
+    expect(() => nextBusinessDay('2024-01-15', { holidays: () => true })).toThrow(/No business day found/);
+  });
+});
+
+describe('Recurrence', () => {
+  const occurrences = (...args: Parameters<typeof iterateRecurrence>) => [...iterateRecurrence(...args)];
+
+  it('should parse RRULE strings', () => {
+    expect(parseRecurrenceRule('RRULE:FREQ=MONTHLY;INTERVAL=3;COUNT=4')).toEqual({ freq: 'MONTHLY', interval: 3, count: 4 });
+    expect(parseRecurrenceRule('freq=monthly;byday=2TU,-1fr;bymonth=1,7')).toEqual({
+      freq: 'MONTHLY',
+      byDay: [{ weekday: 'TU', ordinal: 2 }, { weekday: 'FR', ordinal: -1 }],
+      byMonth: [1, 7],
+    });
+    expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20240215T120000Z;WKST=SU')).toEqual({ freq: 'DAILY', until: '2024-02-15', weekStart: 'SU' });
+    expect(parseRecurrenceRule('FREQ=YEARLY;BYMONTHDAY=-1;BYSETPOS=1')).toEqual({ freq: 'YEARLY', byMonthDay: [-1], bySetPos: [1] });
+  });
+
+  it('should reject unsupported and invalid rules', () => {
+    expect(() => parseRecurrenceRule('FREQ=DAILY;BYHOUR=9')).toThrow('Unsupported RRULE part: BYHOUR');
+    expect(() => parseRecurrenceRule('INTERVAL=2')).toThrow(/missing FREQ/);
+    expect(() => parseRecurrenceRule('FREQ=HOURLY')).toThrow(/frequency/);
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=2TU')).toThrow(/Numbered weekdays/);
+    expect(() => parseRecurrenceRule('FREQ=DAILY;COUNT=1;UNTIL=20240101')).toThrow(/count and an until/);
+    expect(() => parseRecurrenceRule('FREQ=DAILY;UNTIL=20240230')).toThrow(/UNTIL/);
+    expect(() => parseRecurrenceRule('FREQ=DAILY;BYMONTHDAY=0')).toThrow(/month day/);
+    expect(() => parseRecurrenceRule('FREQ=DAILY;INTERVAL=2;INTERVAL=3')).toThrow(/Invalid RRULE part/);
+    expect(() => occurrences({ freq: 'DAILY', interval: 0 }, '2024-01-01', '2024')).toThrow(/interval/);
+  });
+
+  it('should expand numbered weekdays within each month', () => {
+    expect(occurrences('FREQ=MONTHLY;BYDAY=2TU', '2024-01-01', '2024-Q1')).toEqual(['2024-01-09', '2024-02-13', '2024-03-12']);
+    expect(occurrences('FREQ=MONTHLY;BYDAY=-1FR', '2024-01-01', '2024-Q1')).toEqual(['2024-01-26', '2024-02-23', '2024-03-29']);
+    expect(occurrences('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH', '2024-01-01', { start: '2024', end: '2025' })).toEqual(['2024-11-28', '2025-11-27']);
+    expect(occurrences('FREQ=YEARLY;BYDAY=-1SU', '2024-01-01', { start: '2024', end: '2025' })).toEqual(['2024-12-29', '2025-12-28']);
+  });
+
+  it('should select set positions within each period', () => {
+    expect(occurrences('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2024-01-01', '2024-Q1')).toEqual(['2024-01-31', '2024-02-29', '2024-03-29']);
+    expect(occurrences('FREQ=MONTHLY;BYDAY=SA,SU;BYSETPOS=1,2', '2024-06-01', '2024-06')).toEqual(['2024-06-01', '2024-06-02']);
+  });
+
+  it('should combine month days with weekdays', () => {
+    expect(occurrences('FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13', '2024-01-01', '2024')).toEqual(['2024-09-13', '2024-12-13']);
+    expect(occurrences('FREQ=MONTHLY;BYMONTHDAY=1,-1', '2024-01-01', '2024-02')).toEqual(['2024-02-01', '2024-02-29']);
+  });
+
+  it('should skip months without the start day', () => {
+    expect(occurrences({ freq: 'MONTHLY' }, '2024-01-31', { start: '2024-01', end: '2024-06' })).toEqual(['2024-01-31', '2024-03-31', '2024-05-31']);
+    expect(occurrences({ freq: 'YEARLY' }, '2020-02-29', { start: '2020', end: '2028' })).toEqual(['2020-02-29', '2024-02-29', '2028-02-29']);
+  });
+
+  it('should step by the interval', () => {
+    expect(occurrences({ freq: 'MONTHLY', interval: 3 }, '2024-01-15', '2024')).toEqual(['2024-01-15', '2024-04-15', '2024-07-15', '2024-10-15']);
+    expect(occurrences('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH', '2024-01-02', '2024-01')).toEqual(['2024-01-02', '2024-01-04', '2024-01-16', '2024-01-18', '2024-01-30']);
+    expect(occurrences('FREQ=DAILY;INTERVAL=10', '2024-01-01', '2024-02')).toEqual(['2024-02-10', '2024-02-20']);
+  });
+
+  it('should group weekly rules by the week start', () => {
+    // From a Sunday, Monday-first weeks put the next Saturday in the skipped week
+    expect(occurrences('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,SA', '2024-01-07', '2024-01')).toEqual(['2024-01-07', '2024-01-20', '2024-01-21']);
+    expect(occurrences('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,SA;WKST=SU', '2024-01-07', '2024-01')).toEqual(['2024-01-07', '2024-01-13', '2024-01-21', '2024-01-27']);
+  });
+
+  it('should count occurrences from the start, not the window', () => {
+    expect(occurrences('FREQ=DAILY;COUNT=5', '2024-01-01', '2024')).toHaveLength(5);
+    expect(occurrences('FREQ=DAILY;COUNT=5', '2024-01-01', { start: '2024-01-04', end: '2024-12-31' })).toEqual(['2024-01-04', '2024-01-05']);
+    expect(occurrences('FREQ=WEEKLY;UNTIL=20240122', '2024-01-01', '2024')).toEqual(['2024-01-01', '2024-01-08', '2024-01-15', '2024-01-22']);
+  });
+
+  it('should only yield days in the window and from the start', () => {
+    expect(occurrences('FREQ=MONTHLY;BYMONTHDAY=15', '2024-03-01', '2024-Q1')).toEqual(['2024-03-15']);
+    expect(occurrences('FREQ=WEEKLY', '2024-01-01', '2024-W03', { weekSystem: 'iso' })).toEqual(['2024-01-15']);
+  });
+
+  it('should generate occurrences lazily', () => {
+    const iterator = iterateRecurrence('FREQ=DAILY', '2024-01-01', { start: '2024', end: '2999' });
+    expect(iterator.next().value).toBe('2024-01-01');
+    expect(iterator.next().value).toBe('2024-01-02');
+  });
+});
+
+describe('iCalendar', () => {
+  const now = new Date('2024-01-01T00:00:00Z');
+
+  it('should export all-day events with an exclusive end', () => {
+    expect(toICalendar([{ key: '2024-W03', summary: 'Sprint 12' }], { now })).toBe(
+      [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//friendly-dates//EN',
+        'CALSCALE:GREGORIAN',
+        'BEGIN:VEVENT',
+        'UID:20240114-20240121-0@friendly-dates',
+        'DTSTAMP:20240101T000000Z',
+        'DTSTART;VALUE=DATE:20240114',
+        'DTEND;VALUE=DATE:20240121',
+        'SUMMARY:Sprint 12',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        '',
+      ].join('\r\n'),
+    );
+  });
+
+  it('should expand keys and ranges to the days they cover', () => {
+    const ics = toICalendar(
+      [
+        { key: '2024-02', summary: 'Month' },
+        { key: { start: '2024-W01', end: '2024-01-10' }, summary: 'Range' },
+        { key: '2024-03-05T10', summary: 'Hour' },
+        { key: '2024-W01', summary: 'ISO week' },
+      ],
+      { now, weekSystem: 'iso' },
+    );
+    expect(ics).toContain('DTSTART;VALUE=DATE:20240201\r\nDTEND;VALUE=DATE:20240301');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20240101\r\nDTEND;VALUE=DATE:20240111');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20240305\r\nDTEND;VALUE=DATE:20240306');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20240101\r\nDTEND;VALUE=DATE:20240108');
+  });
+
+  it('should escape text and fold long lines', () => {
+    const ics = toICalendar(
+      [{ key: '2024-01-15', summary: 'Launch, phase; one\nnext', description: 'é'.repeat(60), location: 'HQ', uid: 'launch@example.com' }],
+      { now, calendarName: 'Team, Q1', productId: '-//Example//Milestones//EN' },
+    );
+    expect(ics).toContain('PRODID:-//Example//Milestones//EN');
+    expect(ics).toContain('X-WR-CALNAME:Team\\, Q1');
+    expect(ics).toContain('UID:launch@example.com');
+    expect(ics).toContain('SUMMARY:Launch\\, phase\\; one\\nnext');
+    expect(ics).toContain('LOCATION:HQ');
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+  });
+
+  it('should round-trip events', () => {
+    const events = [
+      { key: '2024-W03' as const, summary: 'Sprint 12' },
+      { key: { start: '2024-02', end: '2024-03-15' } as const, summary: 'Beta, phase; one\nnext', description: 'é'.repeat(60), location: 'HQ', uid: 'beta@example.com' },
+    ];
+    expect(parseICalendar(toICalendar(events, { now }))).toEqual([
+      { key: { start: '2024-01-14', end: '2024-01-20' }, summary: 'Sprint 12', uid: '20240114-20240121-0@friendly-dates' },
+      {
+        key: { start: '2024-02-01', end: '2024-03-15' },
+        summary: 'Beta, phase; one\nnext',
+        description: 'é'.repeat(60),
+        location: 'HQ',
+        uid: 'beta@example.com',
+      },
+    ]);
+  });
+
+  it('should read durations and skip timed events', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20240301',
+      'DURATION:P2W',
+      'SUMMARY:Two weeks',
+      'BEGIN:VALARM',
+      'SUMMARY:Reminder',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID="America/New_York":20240301T090000',
+      'SUMMARY:Meeting',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20240401',
+      'SUMMARY:One day',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\n');
+    expect(parseICalendar(ics)).toEqual([
+      { key: { start: '2024-03-01', end: '2024-03-14' }, summary: 'Two weeks' },
+      { key: { start: '2024-04-01', end: '2024-04-01' }, summary: 'One day' },
+    ]);
+  });
+});
+
+describe('Friendly Date Parsing', () => {
+  const now = '2026-06-17';
+
+  it('should parse relative phrases', () => {
+    expect(parseFriendlyDate('yesterday', { now })).toEqual({ key: '2026-06-16', type: 'day' });
+    expect(parseFriendlyDate('Today', { now })).toEqual({ key: '2026-06-17', type: 'day' });
+    expect(parseFriendlyDate('last month', { now })).toEqual({ key: '2026-05', type: 'month' });
+    expect(parseFriendlyDate('this week', { now })).toEqual({ key: '2026-W25', type: 'week' });
+    expect(parseFriendlyDate('next quarter', { now })).toEqual({ key: '2026-Q3', type: 'quarter' });
+    expect(parseFriendlyDate('in 3 days', { now })).toEqual({ key: '2026-06-20', type: 'day' });
+    expect(parseFriendlyDate('2 weeks ago', { now })).toEqual({ key: '2026-W23', type: 'week' });
+  });
+
+  it('should parse periods with the current date filling in the rest', () => {
+    expect(parseFriendlyDate('2024', { now })).toEqual({ key: '2024', type: 'year' });
+    expect(parseFriendlyDate('Q3 2023', { now })).toEqual({ key: '2023-Q3', type: 'quarter' });
+    expect(parseFriendlyDate('Q3', { now })).toEqual({ key: '2026-Q3', type: 'quarter' });
+    expect(parseFriendlyDate('week 12', { now })).toEqual({ key: '2026-W12', type: 'week' });
+    expect(parseFriendlyDate('W12 2024', { now })).toEqual({ key: '2024-W12', type: 'week' });
+    expect(parseFriendlyDate('Jan 2024', { now })).toEqual({ key: '2024-01', type: 'month' });
+    expect(parseFriendlyDate('June', { now })).toEqual({ key: '2026-06', type: 'month' });
+    expect(parseFriendlyDate('1/15/24', { now })).toEqual({ key: '2024-01-15', type: 'day' });
+    expect(parseFriendlyDate('January 15, 2024 at 1 PM', { now })).toEqual({ key: '2024-01-15T13', type: 'hour' });
+    expect(parseFriendlyDate('12:30 a.m.', { now })).toEqual({ key: '2026-06-17T00:30', type: 'minute' });
+    expect(parseFriendlyDate('2024-01-15 to 2024-01-20', { now })).toEqual({ key: { start: '2024-01-15', end: '2024-01-20' }, type: 'day' });
+  });
+
+  it('should reject unrecognized input', () => {
+    expect(parseFriendlyDate('sometime soon', { now })).toBeUndefined();
+    expect(parseFriendlyDate('February 30, 2024', { now })).toBeUndefined();
+    expect(parseFriendlyDate('13 PM', { now })).toBeUndefined();
+    expect(parseFriendlyDate('Q1 – Q2 – Q3', { now })).toBeUndefined();
+    expect(parseFriendlyDate('', { now })).toBeUndefined();
+  });
+
+  it('should parse what formatFriendlyDate writes', () => {
+    const cases: [DateKey, DateKey?][] = [
+      ['2024-01-15'],
+      ['2024-01'],
+      ['2024-W03'],
+      ['2024-Q1'],
+      ['2024'],
+      ['2024-01-15T13'],
+      ['2024-01-15T00:05'],
+      ['2024-01-15', '2024-01-20'],
+      ['2024-01-15', '2024-02-20'],
+      ['2023-12-28', '2024-01-03'],
+      ['2024-01', '2024-03'],
+      ['2023-11', '2024-02'],
+      ['2024-Q1', '2024-Q3'],
+      ['2024-Q4', '2025-Q1'],
+      ['2023', '2025'],
+      ['2023-W52', '2024-W02'],
+      ['2024-01-15T10', '2024-01-15T14'],
+      ['2024-01-15T11:15', '2024-01-15T13:45'],
+    ];
+    for (const [start, end] of cases) {
+      for (const dateStyle of ['full', 'long', 'medium', 'short'] as const) {
+        const text = end ? formatFriendlyDate(start, end, { dateStyle }) : formatFriendlyDate(start, { dateStyle });
+        expect(parseFriendlyDate(text, { now })?.key, text).toEqual(end ? { start, end } : start);
+      }
+    }
+    expect(parseFriendlyDate(formatFriendlyDate('2024-W03', { weekSystem: 'iso' }), { weekSystem: 'iso' })?.key).toBe('2024-W03');
+    // Only ranges of whole weeks become week keys
+    expect(parseFriendlyDate('January 14 – February 3, 2024', { now })).toEqual({ key: { start: '2024-W03', end: '2024-W05' }, type: 'week' });
+    expect(parseFriendlyDate('January 14 – February 2, 2024', { now })).toEqual({ key: { start: '2024-01-14', end: '2024-02-02' }, type: 'day' });
+    expect(parseFriendlyDate(formatFriendlyDate('2026-06-15', { omitCurrent: true, now }), { now })?.key).toBe('2026-06-15');
+    expect(parseFriendlyDate(formatFriendlyDate('2026-03', { relative: 3, now }), { now })?.key).toBe('2026-03');
+  });
+
+  it('should follow the locale', () => {
+    expect(parseFriendlyDate('15. Juni 2024', { now, locale: 'de-DE' })).toEqual({ key: '2024-06-15', type: 'day' });
+    expect(parseFriendlyDate('15.06.24', { now, locale: 'de-DE' })).toEqual({ key: '2024-06-15', type: 'day' });
+    expect(parseFriendlyDate('vor 3 Tagen', { now, locale: 'de-DE' })).toEqual({ key: '2026-06-14', type: 'day' });
+    expect(parseFriendlyDate('15/01/2024', { now, locale: 'en-GB' })).toEqual({ key: '2024-01-15', type: 'day' });
+    expect(parseFriendlyDate(formatFriendlyDate('2024-01', '2024-03', { locale: 'fr-FR' }), { now, locale: 'fr-FR' })?.key).toEqual({ start: '2024-01', end: '2024-03' });
+    expect(parseFriendlyDate(formatFriendlyDate('2024-W03', { locale: 'es-ES' }), { now, locale: 'es-ES' })?.key).toBe('2024-W03');
+  });
+});
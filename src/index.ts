@@ -1,13 +1,83 @@
-export type { DateKey, DateKeyType, DayKey, MonthKey, WeekKey, YearKey } from './types';
+export type {
+  BusinessCalendarOptions,
+  DateKey,
+  DateKeyOptions,
+  DateKeyRange,
+  DateKeyType,
+  DayKey,
+  FiscalKey,
+  FiscalKeyType,
+  FiscalOptions,
+  FiscalQuarterKey,
+  FiscalYearKey,
+  HourKey,
+  MinuteKey,
+  MonthKey,
+  QuarterKey,
+  RetailCalendarOptions,
+  RetailKey,
+  RetailKeyType,
+  RetailPattern,
+  RetailPeriodKey,
+  RetailQuarterKey,
+  RetailYearKey,
+  TimeZoneOptions,
+  WeekKey,
+  WeekOptions,
+  WeekSystem,
+  YearKey,
+} from './types';
 
-export { isDayKey, isMonthKey, isWeekKey, isYearKey } from './guards';
+export {
+  isDayKey,
+  isFiscalQuarterKey,
+  isFiscalYearKey,
+  isHourKey,
+  isMinuteKey,
+  isMonthKey,
+  isQuarterKey,
+  isRetailPeriodKey,
+  isRetailQuarterKey,
+  isRetailYearKey,
+  isWeekKey,
+  isYearKey,
+} from './guards';
+
+export {
+  assertDateKey,
+  isValidDateKey,
+  isValidDayKey,
+  isValidMonthKey,
+  isValidWeekKey,
+  tryParseDateKey,
+} from './validation';
+export type { ParseDateKeyResult } from './validation';
 
-export { toDayKey, toMonthKey, toWeekKey, toYearKey } from './builders';
+export { DateKeyError } from './errors';
+export type { DateKeyErrorCode } from './errors';
+
+export {
+  toDayKey,
+  toFiscalQuarterKey,
+  toFiscalYearKey,
+  toHourKey,
+  toMinuteKey,
+  toMonthKey,
+  toQuarterKey,
+  toRetailPeriodKey,
+  toRetailQuarterKey,
+  toRetailYearKey,
+  toWeekKey,
+  toYearKey,
+} from './builders';
 
 export {
   convertDateKey,
   dateToDayKey,
+  dateToHourKey,
+  dateToMinuteKey,
   dateToMonthKey,
+  dateToQuarterKey,
   dateToWeekKey,
   dateToYearKey,
   formatDateAsKey,
@@ -15,17 +85,101 @@ export {
   parseDateKey,
   parseDateKeyToParts,
   parseDayKey,
+  parseHourKey,
+  parseMinuteKey,
   parseMonthKey,
+  parseQuarterKey,
   parseWeekKey,
   parseYearKey,
 } from './converters';
 
-export { formatFriendlyDate } from './formatters';
+export { addToDateKey, diffDateKeys, subtractFromDateKey } from './arithmetic';
+export { eachDateKey, iterateDateKeys } from './iteration';
+export type { EachDateKeyOptions } from './iteration';
+
+export { groupByDateKey } from './grouping';
+export type { GroupByDateKeyOptions } from './grouping';
+export { rollupDateKeyed } from './rollup';
+export type { RollupOptions } from './rollup';
+
+export { getChildKeys, getDateKeyInterval, getParentKey } from './periods';
+
+export {
+  dateKeyRangeContains,
+  dateKeyRangesOverlap,
+  intersectDateKeyRanges,
+  normalizeDateKeyRanges,
+  subtractDateKeyRanges,
+  unionDateKeyRanges,
+} from './ranges';
+
+export { compareDateKeys, isAfter, isBefore, isSameOrContains, maxDateKey, minDateKey, sortDateKeys } from './ordering';
+export type { CompareDateKeysOptions } from './ordering';
+
+export { dateKeyToOrdinal, ordinalToDateKey } from './ordinals';
+
+export {
+  dateKeyToZonedRange,
+  fromPlainDate,
+  fromPlainYearMonth,
+  fromZonedDateTime,
+  toPlainDate,
+  toPlainYearMonth,
+} from './temporal';
+export type { PlainDateLike, PlainYearMonthLike, TemporalNamespace, TemporalOptions, ZonedDateTimeLike } from './temporal';
+
+export { getMonthGrid, getYearGrid } from './grid';
+export type { CalendarGridDay, CalendarGridOptions, CalendarGridWeek, MonthGrid, YearGrid } from './grid';
+
+export { addBusinessDays, countBusinessDays, isBusinessDay, nextBusinessDay } from './business';
+
+export { iterateRecurrence, parseRecurrenceRule } from './recurrence';
+export type { RecurrenceFrequency, RecurrenceRule, RecurrenceWeekday, RecurrenceWeekdayRule } from './recurrence';
+
+export { parseICalendar, toICalendar } from './icalendar';
+export type { ICalendarEvent, ICalendarOptions, ParsedICalendarEvent } from './icalendar';
+
+export {
+  convertFiscalKey,
+  convertToFiscalKey,
+  dateToFiscalQuarterKey,
+  dateToFiscalYearKey,
+  getFiscalKeyInterval,
+  getFiscalMonthKeys,
+  parseFiscalKey,
+  parseFiscalQuarterKey,
+  parseFiscalYearKey,
+} from './fiscal';
+
+export {
+  convertRetailKey,
+  convertToRetailKey,
+  dateToRetailPeriodKey,
+  dateToRetailQuarterKey,
+  dateToRetailYearKey,
+  getRetailKeyInterval,
+  getRetailWeekKeys,
+  parseRetailKey,
+  parseRetailPeriodKey,
+  parseRetailQuarterKey,
+  parseRetailYearKey,
+} from './retail';
+
+export { formatFriendlyDate, formatRelativeDateKey } from './formatters';
+export type { FormatFriendlyDateOptions, FormatRelativeDateKeyOptions } from './formatters';
+export { parseFriendlyDate } from './parsers';
+export type { ParseFriendlyDateOptions, ParseFriendlyDateResult } from './parsers';
 
 export {
   isCurrentDay,
+  isCurrentHour,
+  isCurrentMinute,
   isCurrentMonth,
   isCurrentPeriod,
+  isCurrentQuarter,
   isCurrentWeek,
   isCurrentYear,
 } from './comparisons';
+
+export { getCurrentDateKey, getNow, setClock } from './clock';
+export type { CurrentPeriodOptions } from './clock';
@@ -0,0 +1,108 @@
+import type { DateKey, DateKeyType, DayKey, HourKey, MinuteKey, MonthKey, QuarterKey, WeekKey, WeekOptions, YearKey } from './types';
+import { convertDateKey, getDateKeyType } from './converters';
+import { addToDateKey, diffDateKeys } from './arithmetic';
+
+export interface EachDateKeyOptions extends WeekOptions {
+  /**
+   * The number of periods to advance between keys. Must be a positive integer.
+   *
+   * @default 1
+   */
+  step?: number;
+  /**
+   * The resolution of the keys to produce. When omitted, both keys must be of the same type
+   * and the keys produced are of that type.
+   */
+  type?: DateKeyType;
+}
+
+/**
+ * Lazily generates every date key from `start` to `end`, inclusive.
+ * 
+ * When a target `type` is given, the range covers every period of that type that overlaps
+ * the full span of the input keys (e.g. every week touching January through March).
+ * Week keys follow the same week-year rules as `dateToWeekKey`.
+ * 
+ * @param start - The first date key of the range
+ * @param end - The last date key of the range (inclusive)
+ * @param options - Optional step, target resolution, and week numbering options
+ * @returns A generator of date keys in chronological order
+ * @throws If the keys are of different types and no target type is given, or the step is invalid
+ * 
+ * @example
+ * [...iterateDateKeys('2024-01-15T22', '2024-01-16T01')];           // ["2024-01-15T22", "2024-01-15T23", "2024-01-16T00", "2024-01-16T01"]
+ * [...iterateDateKeys('2024-01', '2024-03')];                       // ["2024-01", "2024-02", "2024-03"]
+ * [...iterateDateKeys('2024-01-01', '2024-01-10', { step: 3 })];   // ["2024-01-01", "2024-01-04", "2024-01-07", "2024-01-10"]
+ * [...iterateDateKeys('2023-W51', '2024-W02')];                     // ["2023-W51", "2023-W52", "2024-W01", "2024-W02"]
+ */
+export function iterateDateKeys(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'minute' }): Generator<MinuteKey>;
+export function iterateDateKeys(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'hour' }): Generator<HourKey>;
+export function iterateDateKeys(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'day' }): Generator<DayKey>;
+export function iterateDateKeys(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'week' }): Generator<WeekKey>;
+export function iterateDateKeys(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'month' }): Generator<MonthKey>;
+export function iterateDateKeys(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'quarter' }): Generator<QuarterKey>;
+export function iterateDateKeys(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'year' }): Generator<YearKey>;
+export function iterateDateKeys(start: MinuteKey, end: MinuteKey, options?: EachDateKeyOptions): Generator<MinuteKey>;
+export function iterateDateKeys(start: HourKey, end: HourKey, options?: EachDateKeyOptions): Generator<HourKey>;
+export function iterateDateKeys(start: DayKey, end: DayKey, options?: EachDateKeyOptions): Generator<DayKey>;
+export function iterateDateKeys(start: WeekKey, end: WeekKey, options?: EachDateKeyOptions): Generator<WeekKey>;
+export function iterateDateKeys(start: MonthKey, end: MonthKey, options?: EachDateKeyOptions): Generator<MonthKey>;
+export function iterateDateKeys(start: QuarterKey, end: QuarterKey, options?: EachDateKeyOptions): Generator<QuarterKey>;
+export function iterateDateKeys(start: YearKey, end: YearKey, options?: EachDateKeyOptions): Generator<YearKey>;
+export function iterateDateKeys(start: DateKey, end: DateKey, options?: EachDateKeyOptions): Generator<DateKey>;
+export function* iterateDateKeys(start: DateKey, end: DateKey, options: EachDateKeyOptions = {}): Generator<DateKey> {
+  const { step = 1 } = options;
+  if (!Number.isInteger(step) || step < 1) {
+    throw new Error(`Invalid step: ${step}`);
+  }
+  const type = options.type ?? getDateKeyType(start);
+  if (!options.type && getDateKeyType(end) !== type) {
+    throw new Error(`Cannot iterate between date keys of different types without a target type: ${start}, ${end}`);
+  }
+
+  const first = convertDateKey(start, type, options);
+  // The key containing the last minute of the end key's period, so coarser end keys are fully covered
+  const lastMinute = addToDateKey(convertDateKey(addToDateKey(end, 1, options), 'minute', options), -1);
+  const last = getDateKeyType(end) === type ? end : convertDateKey(lastMinute, type, options);
+  const count = diffDateKeys(first, last, options);
+
+  for (let offset = 0; offset <= count; offset += step) {
+    yield addToDateKey(first, offset, options);
+  }
+}
+
+/**
+ * Lists every date key from `start` to `end`, inclusive.
+ * 
+ * This is the eager form of `iterateDateKeys`, useful for building chart buckets
+ * where empty periods must still be present.
+ * 
+ * @param start - The first date key of the range
+ * @param end - The last date key of the range (inclusive)
+ * @param options - Optional step, target resolution, and week numbering options
+ * @returns An array of date keys in chronological order
+ * @throws If the keys are of different types and no target type is given, or the step is invalid
+ * 
+ * @example
+ * eachDateKey('2024-01', '2024-03');                    // ["2024-01", "2024-02", "2024-03"]
+ * eachDateKey('2024-01', '2024-03', { type: 'week' });  // ["2024-W01", "2024-W02", ..., "2024-W14"] (every week touching Jan-Mar)
+ * eachDateKey('2020', '2030', { step: 5 });             // ["2020", "2025", "2030"]
+ */
+export function eachDateKey(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'minute' }): MinuteKey[];
+export function eachDateKey(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'hour' }): HourKey[];
+export function eachDateKey(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'day' }): DayKey[];
+export function eachDateKey(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'week' }): WeekKey[];
+export function eachDateKey(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'month' }): MonthKey[];
+export function eachDateKey(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'quarter' }): QuarterKey[];
+export function eachDateKey(start: DateKey, end: DateKey, options: EachDateKeyOptions & { type: 'year' }): YearKey[];
+export function eachDateKey(start: MinuteKey, end: MinuteKey, options?: EachDateKeyOptions): MinuteKey[];
+export function eachDateKey(start: HourKey, end: HourKey, options?: EachDateKeyOptions): HourKey[];
+export function eachDateKey(start: DayKey, end: DayKey, options?: EachDateKeyOptions): DayKey[];
+export function eachDateKey(start: WeekKey, end: WeekKey, options?: EachDateKeyOptions): WeekKey[];
+export function eachDateKey(start: MonthKey, end: MonthKey, options?: EachDateKeyOptions): MonthKey[];
+export function eachDateKey(start: QuarterKey, end: QuarterKey, options?: EachDateKeyOptions): QuarterKey[];
+export function eachDateKey(start: YearKey, end: YearKey, options?: EachDateKeyOptions): YearKey[];
+export function eachDateKey(start: DateKey, end: DateKey, options?: EachDateKeyOptions): DateKey[];
+export function eachDateKey(start: DateKey, end: DateKey, options?: EachDateKeyOptions): DateKey[] {
+  return Array.from(iterateDateKeys(start, end, options));
+}
@@ -0,0 +1,154 @@
+import type { DateKey, WeekOptions } from './types';
+import { convertDateKey } from './converters';
+import { addToDateKey } from './arithmetic';
+import { dateKeyToOrdinal } from './ordinals';
+
+export interface CompareDateKeysOptions extends WeekOptions {
+  /**
+   * Which end of each key's period to order by. Ties are broken by the other end.
+   *
+   * @default 'start'
+   */
+  by?: 'start' | 'end';
+}
+
+/**
+ * The wall-clock minutes a key covers, from `start` (inclusive) to `end` (exclusive).
+ */
+interface Bounds {
+  start: number;
+  end: number;
+}
+
+function getBounds(dateKey: DateKey, options?: WeekOptions): Bounds {
+  return {
+    start: dateKeyToOrdinal(convertDateKey(dateKey, 'minute', options)),
+    end: dateKeyToOrdinal(convertDateKey(addToDateKey(dateKey, 1, options), 'minute', options)),
+  };
+}
+
+function compareBounds(a: Bounds, b: Bounds, by: 'start' | 'end'): number {
+  return by === 'start' ? a.start - b.start || a.end - b.end : a.end - b.end || a.start - b.start;
+}
+
+/**
+ * Compares two date keys of any resolution chronologically.
+ *
+ * Keys are ordered by when their periods start (or end), so week keys sort correctly
+ * among day, month, quarter, and year keys. When two periods start at the same moment,
+ * the one that ends first comes first.
+ *
+ * @param a - The first date key
+ * @param b - The second date key
+ * @param options - Optional end to order by, and week numbering options
+ * @returns A negative number if `a` comes first, a positive number if `b` does, or 0 if they cover the same time
+ *
+ * @example
+ * compareDateKeys('2024-W01', '2024-01-15');  // negative (2024-W01 starts Dec 31, 2023)
+ * compareDateKeys('2024-01', '2024-01-01');   // positive (same start, but the day ends first)
+ * compareDateKeys('2024-Q1', '2024-03', { by: 'end' });  // negative (same end, but the quarter starts first)
+ */
+export function compareDateKeys(a: DateKey, b: DateKey, options: CompareDateKeysOptions = {}): number {
+  return compareBounds(getBounds(a, options), getBounds(b, options), options.by ?? 'start');
+}
+
+/**
+ * Sorts date keys of any resolution chronologically, in the order of `compareDateKeys`.
+ *
+ * @param dateKeys - The date keys to sort (not modified)
+ * @param options - Optional end to order by, and week numbering options
+ * @returns A new array of the date keys in chronological order
+ *
+ * @example
+ * sortDateKeys(['2024-01-15', '2024-W01', '2024-01', '2023']);
+ * // ["2023", "2024-W01", "2024-01", "2024-01-15"]
+ */
+export function sortDateKeys<T extends DateKey>(dateKeys: readonly T[], options: CompareDateKeysOptions = {}): T[] {
+  const by = options.by ?? 'start';
+  // Each key is parsed once rather than on every comparison
+  return dateKeys
+    .map((dateKey) => ({ dateKey, bounds: getBounds(dateKey, options) }))
+    .sort((a, b) => compareBounds(a.bounds, b.bounds, by))
+    .map(({ dateKey }) => dateKey);
+}
+
+/**
+ * Finds the chronologically first date key, in the order of `compareDateKeys`.
+ *
+ * @param dateKeys - The date keys to search
+ * @param options - Optional end to order by, and week numbering options
+ * @returns The first date key, or undefined if there are none
+ *
+ * @example
+ * minDateKey(['2024-01-15', '2024-W01', '2024-01']);  // "2024-W01"
+ */
+export function minDateKey<T extends DateKey>(dateKeys: readonly T[], options?: CompareDateKeysOptions): T | undefined {
+  return sortDateKeys(dateKeys, options)[0];
+}
+
+/**
+ * Finds the chronologically last date key, in the order of `compareDateKeys`.
+ *
+ * @param dateKeys - The date keys to search
+ * @param options - Optional end to order by, and week numbering options
+ * @returns The last date key, or undefined if there are none
+ *
+ * @example
+ * maxDateKey(['2024-12-31', '2024', '2024-W52']);       // "2024-12-31"
+ * maxDateKey(['2024', '2024-12-31'], { by: 'end' });  // "2024-12-31" (same end, but the day starts later)
+ */
+export function maxDateKey<T extends DateKey>(dateKeys: readonly T[], options?: CompareDateKeysOptions): T | undefined {
+  const sorted = sortDateKeys(dateKeys, options);
+  return sorted[sorted.length - 1];
+}
+
+/**
+ * Checks if a date key's period ends before another's begins.
+ *
+ * @param a - The date key to check
+ * @param b - The date key to compare against
+ * @param options - Optional week numbering options, used for week keys
+ * @returns True if all of `a` comes before all of `b`
+ *
+ * @example
+ * isBefore('2024-01-31', '2024-02');  // true
+ * isBefore('2024-W05', '2024-02');    // false (2024-W05 runs Jan 28 – Feb 3)
+ */
+export function isBefore(a: DateKey, b: DateKey, options?: WeekOptions): boolean {
+  return getBounds(a, options).end <= getBounds(b, options).start;
+}
+
+/**
+ * Checks if a date key's period begins after another's ends.
+ *
+ * @param a - The date key to check
+ * @param b - The date key to compare against
+ * @param options - Optional week numbering options, used for week keys
+ * @returns True if all of `a` comes after all of `b`
+ *
+ * @example
+ * isAfter('2024-Q2', '2024-03-31');  // true
+ * isAfter('2024-W01', '2023');       // false (2024-W01 starts Dec 31, 2023)
+ */
+export function isAfter(a: DateKey, b: DateKey, options?: WeekOptions): boolean {
+  return getBounds(b, options).end <= getBounds(a, options).start;
+}
+
+/**
+ * Checks if a date key's period covers all of another's, including when they are the same.
+ *
+ * @param a - The containing date key
+ * @param b - The date key to look for
+ * @param options - Optional week numbering options, used for week keys
+ * @returns True if every moment of `b` is within `a`
+ *
+ * @example
+ * isSameOrContains('2024-Q1', '2024-02-15');  // true
+ * isSameOrContains('2024-01', '2024-01');     // true
+ * isSameOrContains('2024', '2024-W01');       // false (2024-W01 starts Dec 31, 2023)
+ */
+export function isSameOrContains(a: DateKey, b: DateKey, options?: WeekOptions): boolean {
+  const outer = getBounds(a, options);
+  const inner = getBounds(b, options);
+  return outer.start <= inner.start && inner.end <= outer.end;
+}
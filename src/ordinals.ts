@@ -0,0 +1,125 @@
+import type { DateKey, DateKeyType, DayKey, HourKey, MinuteKey, MonthKey, QuarterKey, WeekKey, WeekOptions, YearKey } from './types';
+import { isDayKey, isHourKey, isMinuteKey, isMonthKey, isQuarterKey, isWeekKey, isYearKey } from './guards';
+import { toDayKey, toHourKey, toMinuteKey, toMonthKey, toQuarterKey, toWeekKey, toYearKey } from './builders';
+import { parseDayKey, parseHourKey, parseMinuteKey, parseMonthKey, parseQuarterKey, parseWeekKey, parseYearKey, resolveWeekOptions } from './converters';
+import { civilFromDays, daysFromCivil, getWeekOfDays, getWeekStartDays, startOfWeekDays } from './calendar';
+import { DateKeyError } from './errors';
+
+const EPOCH_YEAR = 1970;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Converts a date key to a dense integer that counts periods of its resolution from 1970.
+ *
+ * - Minute, hour, and day keys count minutes, hours, and days since 1970-01-01T00:00.
+ * - Week keys count weeks since the week containing 1970-01-01.
+ * - Month, quarter, and year keys count months, quarters, and years since the start of 1970.
+ *
+ * Ordinals of the same resolution sort chronologically, and adding `n` to an ordinal moves
+ * `n` periods forward. They count calendar periods, so they don't depend on the time zone
+ * or daylight saving time.
+ *
+ * @param dateKey - The date key to convert
+ * @param options - Optional week numbering options, used for week keys
+ * @returns The ordinal of the key within its resolution, negative for periods before 1970
+ * @throws {DateKeyError} If the value is not a date key
+ *
+ * @example
+ * dateKeyToOrdinal('2024-01-15');  // 19737
+ * dateKeyToOrdinal('2024-01');     // 648
+ * dateKeyToOrdinal('2024-W03');    // 2820
+ * dateKeyToOrdinal('1969');        // -1
+ */
+export function dateKeyToOrdinal(dateKey: DateKey, options?: WeekOptions): number {
+  if (isMinuteKey(dateKey)) {
+    const { year, month, day, hour, minute } = parseMinuteKey(dateKey);
+    return daysFromCivil(year, month, day) * MINUTES_PER_DAY + hour * 60 + minute;
+  }
+  if (isHourKey(dateKey)) {
+    const { year, month, day, hour } = parseHourKey(dateKey);
+    return daysFromCivil(year, month, day) * 24 + hour;
+  }
+  if (isDayKey(dateKey)) {
+    const { year, month, day } = parseDayKey(dateKey);
+    return daysFromCivil(year, month, day);
+  }
+  if (isWeekKey(dateKey)) {
+    const rules = resolveWeekOptions(options);
+    const { year, week } = parseWeekKey(dateKey);
+    return (getWeekStartDays(year, week, rules) - startOfWeekDays(0, rules.weekStartsOn)) / 7;
+  }
+  if (isMonthKey(dateKey)) {
+    const { year, month } = parseMonthKey(dateKey);
+    return (year - EPOCH_YEAR) * 12 + month - 1;
+  }
+  if (isQuarterKey(dateKey)) {
+    const { year, quarter } = parseQuarterKey(dateKey);
+    return (year - EPOCH_YEAR) * 4 + quarter - 1;
+  }
+  if (isYearKey(dateKey)) {
+    return parseYearKey(dateKey) - EPOCH_YEAR;
+  }
+  throw new DateKeyError('INVALID_FORMAT', `Invalid DateKey: ${dateKey}`, dateKey);
+}
+
+/**
+ * Converts an ordinal from `dateKeyToOrdinal` back into a date key.
+ *
+ * @param ordinal - The ordinal of the period within its resolution
+ * @param type - The resolution the ordinal counts
+ * @param options - Optional week numbering options, used for week keys
+ * @returns A date key of the given type
+ * @throws If the ordinal is not an integer
+ *
+ * @example
+ * ordinalToDateKey(19737, 'day');    // "2024-01-15"
+ * ordinalToDateKey(648, 'month');    // "2024-01"
+ * ordinalToDateKey(dateKeyToOrdinal('2024-W52') + 2, 'week');  // "2025-W02"
+ */
+export function ordinalToDateKey(ordinal: number, type: 'minute', options?: WeekOptions): MinuteKey;
+export function ordinalToDateKey(ordinal: number, type: 'hour', options?: WeekOptions): HourKey;
+export function ordinalToDateKey(ordinal: number, type: 'day', options?: WeekOptions): DayKey;
+export function ordinalToDateKey(ordinal: number, type: 'week', options?: WeekOptions): WeekKey;
+export function ordinalToDateKey(ordinal: number, type: 'month', options?: WeekOptions): MonthKey;
+export function ordinalToDateKey(ordinal: number, type: 'quarter', options?: WeekOptions): QuarterKey;
+export function ordinalToDateKey(ordinal: number, type: 'year', options?: WeekOptions): YearKey;
+export function ordinalToDateKey(ordinal: number, type: DateKeyType, options?: WeekOptions): DateKey;
+export function ordinalToDateKey(ordinal: number, type: DateKeyType, options?: WeekOptions): DateKey {
+  if (!Number.isInteger(ordinal)) {
+    throw new Error(`Invalid ordinal: ${ordinal}`);
+  }
+  switch (type) {
+    case 'minute': {
+      const days = Math.floor(ordinal / MINUTES_PER_DAY);
+      const minuteOfDay = ordinal - days * MINUTES_PER_DAY;
+      const { year, month, day } = civilFromDays(days);
+      return toMinuteKey(year, month, day, Math.floor(minuteOfDay / 60), minuteOfDay % 60);
+    }
+    case 'hour': {
+      const days = Math.floor(ordinal / 24);
+      const { year, month, day } = civilFromDays(days);
+      return toHourKey(year, month, day, ordinal - days * 24);
+    }
+    case 'day': {
+      const { year, month, day } = civilFromDays(ordinal);
+      return toDayKey(year, month, day);
+    }
+    case 'week': {
+      const rules = resolveWeekOptions(options);
+      const { year, week } = getWeekOfDays(startOfWeekDays(0, rules.weekStartsOn) + ordinal * 7, rules);
+      return toWeekKey(year, week);
+    }
+    case 'month': {
+      const yearOffset = Math.floor(ordinal / 12);
+      return toMonthKey(EPOCH_YEAR + yearOffset, ordinal - yearOffset * 12 + 1);
+    }
+    case 'quarter': {
+      const yearOffset = Math.floor(ordinal / 4);
+      return toQuarterKey(EPOCH_YEAR + yearOffset, ordinal - yearOffset * 4 + 1);
+    }
+    case 'year':
+      return toYearKey(EPOCH_YEAR + ordinal);
+    default:
+      throw new Error('Invalid key type');
+  }
+}
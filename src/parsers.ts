@@ -0,0 +1,414 @@
+import type { DateKey, DateKeyRange, DateKeyType } from './types';
+import { toDayKey, toHourKey, toMinuteKey, toMonthKey, toQuarterKey, toWeekKey, toYearKey } from './builders';
+import { convertDateKey, getDateKeyType, parseDayKey, parseWeekKey } from './converters';
+import { isValidDateKey } from './validation';
+import { addToDateKey } from './arithmetic';
+import { compareDateKeys } from './ordering';
+import { getCurrentDateKey } from './clock';
+import type { CurrentPeriodOptions } from './clock';
+
+export interface ParseFriendlyDateOptions extends CurrentPeriodOptions {
+  /**
+   * The locale(s) whose month names, weekday names, numeric date order, and relative phrases are recognized.
+   *
+   * @default 'en-US'
+   */
+  locale?: string | string[];
+}
+
+export interface ParseFriendlyDateResult {
+  /** The date key, or a range of date keys when the input spans several periods */
+  key: DateKey | DateKeyRange;
+  /** The resolution of the key, or the finest resolution of the range's keys */
+  type: DateKeyType;
+}
+
+interface LocaleVocabulary {
+  months: Map<string, number>;
+  weekdays: Set<string>;
+  meridiems: Map<string, 'am' | 'pm'>;
+  fillers: Set<string>;
+  numericOrder: ('year' | 'month' | 'day')[];
+  relativePhrases: Map<string, { type: DateKeyType; offset: number }>;
+  relativePatterns: { pattern: RegExp; type: DateKeyType; sign: 1 | -1 }[];
+}
+
+interface DateFields {
+  year?: number;
+  quarter?: number;
+  week?: number;
+  month?: number;
+  day?: number;
+  hour?: number;
+  minute?: number;
+  meridiem?: 'am' | 'pm';
+  /** Bare numbers that are a day or an hour, depending on the rest of the input */
+  numbers: number[];
+}
+
+const RESOLUTIONS: DateKeyType[] = ['minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'];
+// Sample amounts covering the plural categories of most languages
+const RELATIVE_SAMPLES = [1, 2, 3, 5, 11, 21, 101];
+const ENGLISH_WEEK_WORDS = ['week', 'wk', 'w'];
+
+const TOKEN_PATTERN = new RegExp(
+  [
+    '(?<numericDate>\\d{1,4}[/.]\\d{1,4}(?:[/.]\\d{1,4})?)(?![\\d/.]*\\d)',
+    '(?<hour>\\d{1,2}):(?<minute>\\d{2})',
+    '\\bq(?<quarter>[1-4])\\b',
+    `\\b(?:${ENGLISH_WEEK_WORDS.join('|')})\\s*(?<week>\\d{1,2})\\b`,
+    '(?<number>\\d+)',
+    '(?<word>\\p{L}+)',
+  ].join('|'),
+  'gu',
+);
+
+const vocabularies = new Map<string, LocaleVocabulary>();
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[.\s]/g, '');
+}
+
+function escapePattern(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Collects the words and patterns a locale formats dates with, so input in that locale
+ * can be read back. Intl formats in UTC here, so the host time zone can't shift the samples.
+ */
+function getVocabulary(locale: string | string[] = 'en-US'): LocaleVocabulary {
+  const cacheKey = JSON.stringify(locale);
+  const cached = vocabularies.get(cacheKey);
+  if (cached) return cached;
+
+  const partsOf = (options: Intl.DateTimeFormatOptions, date: number) =>
+    new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).formatToParts(date);
+
+  const months = new Map<string, number>();
+  for (let month = 1; month <= 12; month++) {
+    const date = Date.UTC(2024, month - 1, 15);
+    // Some languages use a different form of the month name next to a day
+    for (const style of ['long', 'short'] as const) {
+      for (const options of [{ month: style }, { month: style, day: 'numeric' }, { month: style, year: 'numeric' }] as Intl.DateTimeFormatOptions[]) {
+        const name = partsOf(options, date).find((part) => part.type === 'month')?.value;
+        if (name && !/\d/.test(name)) months.set(normalizeWord(name), month);
+      }
+    }
+  }
+
+  const weekdays = new Set<string>();
+  for (let day = 0; day < 7; day++) {
+    // January 7, 2024 was a Sunday
+    for (const weekday of ['long', 'short'] as const) {
+      const name = partsOf({ weekday }, Date.UTC(2024, 0, 7 + day)).find((part) => part.type === 'weekday')?.value;
+      if (name) weekdays.add(normalizeWord(name));
+    }
+  }
+
+  const meridiems = new Map<string, 'am' | 'pm'>([['am', 'am'], ['pm', 'pm']]);
+  for (const [hour, meridiem] of [[1, 'am'], [13, 'pm']] as const) {
+    const name = partsOf({ hour: 'numeric', hour12: true }, Date.UTC(2024, 0, 15, hour)).find((part) => part.type === 'dayPeriod')?.value;
+    if (name) meridiems.set(normalizeWord(name), meridiem);
+  }
+
+  // Words that join a month name to the rest of the date, such as Spanish "de", or the
+  // date to the time, such as "at"
+  const fillers = new Set<string>();
+  const dateTimeParts = partsOf({ dateStyle: 'long', timeStyle: 'short' }, Date.UTC(2024, 0, 15, 13));
+  dateTimeParts.forEach((part, index) => {
+    const next = dateTimeParts[index + 1];
+    const previous = dateTimeParts[index - 1];
+    const nextToMonthName = [next, previous].some((neighbour) => neighbour?.type === 'month' && !/\d/.test(neighbour.value));
+    if (part.type !== 'literal' || !(nextToMonthName || next?.type === 'hour')) return;
+    for (const word of part.value.match(/\p{L}+/gu) ?? []) fillers.add(normalizeWord(word));
+  });
+
+  const numericOrder = partsOf({ year: 'numeric', month: 'numeric', day: 'numeric' }, Date.UTC(2024, 0, 15))
+    .map((part) => part.type)
+    .filter((type): type is 'year' | 'month' | 'day' => type === 'year' || type === 'month' || type === 'day');
+
+  const relativePhrases = new Map<string, { type: DateKeyType; offset: number }>();
+  const relativePatterns: LocaleVocabulary['relativePatterns'] = [];
+  const auto = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  const always = new Intl.RelativeTimeFormat(locale, { numeric: 'always' });
+  for (const type of RESOLUTIONS) {
+    for (const offset of [-1, 0, 1]) {
+      relativePhrases.set(normalizeSpaces(auto.format(offset, type)).toLowerCase(), { type, offset });
+    }
+    for (const sign of [1, -1] as const) {
+      const patterns = new Set<string>();
+      for (const amount of RELATIVE_SAMPLES) {
+        const parts = always.formatToParts(sign * amount, type);
+        const integerIndex = parts.findIndex((part) => part.type === 'integer');
+        if (integerIndex === -1) continue;
+        const text = (from: number, to: number) => escapePattern(parts.slice(from, to).map((part) => part.value).join('').replace(/\s+/g, ' ').toLowerCase());
+        patterns.add(`^${text(0, integerIndex)}(\\d+)${text(integerIndex + 1, parts.length)}$`);
+      }
+      for (const pattern of patterns) relativePatterns.push({ pattern: new RegExp(pattern, 'u'), type, sign });
+    }
+  }
+
+  const vocabulary = { months, weekdays, meridiems, fillers, numericOrder, relativePhrases, relativePatterns };
+  vocabularies.set(cacheKey, vocabulary);
+  return vocabulary;
+}
+
+function normalizeSpaces(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Resolves a two-digit year to the century that puts it closest to the current year.
+ */
+function expandYear(year: number, digits: number, currentYear: number): number {
+  if (digits > 2) return year;
+  const century = Math.floor(currentYear / 100) * 100;
+  const candidates = [century - 100 + year, century + year, century + 100 + year];
+  return candidates.reduce((best, candidate) => (Math.abs(candidate - currentYear) < Math.abs(best - currentYear) ? candidate : best));
+}
+
+/**
+ * Reads the date fields named in one side of the input, or undefined if any word or
+ * number can't be placed.
+ */
+function tokenize(text: string, vocabulary: LocaleVocabulary, currentYear: number): DateFields | undefined {
+  const fields: DateFields = { numbers: [] };
+  // The last bare number or time of day, which a following "AM" or "PM" applies to
+  let lastTime: 'number' | 'time' | undefined;
+  const set = <K extends keyof DateFields>(field: K, value: DateFields[K]) => {
+    if (fields[field] !== undefined) return false;
+    fields[field] = value;
+    return true;
+  };
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const groups = match.groups!;
+    let valid = true;
+    let time: typeof lastTime;
+
+    if (groups.numericDate) {
+      const values = groups.numericDate.split(/[/.]/);
+      const order = values.length === 3 ? vocabulary.numericOrder : vocabulary.numericOrder.filter((type) => type !== 'year');
+      // A 4-digit number is always a year, as in "2024/01/15" or the "1/2024" of a month
+      let types: readonly ('year' | 'month' | 'day')[] = order;
+      if (values[0].length === 4) types = ['year', 'month', 'day'];
+      else if (values.length === 2 && values[1].length === 4) types = ['month', 'year'];
+      values.forEach((value, index) => {
+        const type = types[index];
+        const number = type === 'year' ? expandYear(Number(value), value.length, currentYear) : Number(value);
+        valid &&= type !== undefined && set(type, number);
+      });
+    } else if (groups.hour) {
+      valid = set('hour', Number(groups.hour)) && set('minute', Number(groups.minute));
+      time = 'time';
+    } else if (groups.quarter) {
+      valid = set('quarter', Number(groups.quarter));
+    } else if (groups.week) {
+      valid = set('week', Number(groups.week));
+    } else if (groups.number) {
+      if (groups.number.length > 2) {
+        valid = set('year', Number(groups.number));
+      } else {
+        fields.numbers.push(Number(groups.number));
+        time = 'number';
+      }
+    } else {
+      const word = normalizeWord(groups.word);
+      const month = vocabulary.months.get(word);
+      const meridiem = vocabulary.meridiems.get(word);
+      if (month !== undefined) {
+        valid = set('month', month);
+      } else if (meridiem !== undefined) {
+        // A bare number followed by AM or PM is an hour
+        if (lastTime === 'number') set('hour', fields.numbers.pop());
+        valid = lastTime !== undefined && set('meridiem', meridiem);
+      } else {
+        valid = vocabulary.weekdays.has(word) || vocabulary.fillers.has(word);
+      }
+    }
+
+    if (!valid) return undefined;
+    lastTime = time;
+  }
+  return fields;
+}
+
+function hasTime(fields: DateFields): boolean {
+  return fields.hour !== undefined || fields.meridiem !== undefined;
+}
+
+/**
+ * Places the bare numbers of one side: the first is the day of the month, and one more is
+ * an hour when the input has a time of day (as the "1" of "January 15, 1 – 4 PM").
+ */
+function placeNumbers(fields: DateFields, timeContext: boolean): boolean {
+  const numbers = [...fields.numbers];
+  fields.numbers = [];
+  if (fields.day === undefined && numbers.length > 0 && (fields.month !== undefined || !timeContext || numbers.length > 1)) {
+    fields.day = numbers.shift();
+  }
+  if (fields.hour === undefined && numbers.length > 0 && timeContext) {
+    fields.hour = numbers.shift();
+  }
+  return numbers.length === 0;
+}
+
+function getFinestField(fields: DateFields): keyof DateFields | undefined {
+  return (['minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'] as const).find((field) => fields[field] !== undefined);
+}
+
+/**
+ * Fills the fields that a formatted range leaves out of one side, such as the shared year
+ * of "January 15 – 20, 2024" or the shared day of "January 15, 2024, 1 – 4 PM".
+ *
+ * @returns Whether the start took its year from the end
+ */
+function fillRange(start: DateFields, end: DateFields): boolean {
+  const inheritsYear = start.year === undefined && end.year !== undefined;
+  start.year ??= end.year;
+  if (start.day !== undefined && end.day !== undefined) start.month ??= end.month;
+  start.meridiem ??= end.meridiem;
+
+  const endFinest = getFinestField(end);
+  const inherited = endFinest === 'minute' || endFinest === 'hour' ? (['year', 'month', 'day'] as const) : endFinest === 'day' ? (['year', 'month'] as const) : (['year'] as const);
+  for (const field of inherited) end[field] ??= start[field];
+  return inheritsYear;
+}
+
+/**
+ * Builds the date key of one side, taking the periods it leaves out from the current date.
+ */
+function toDateKey(fields: DateFields, options: ParseFriendlyDateOptions): DateKey | undefined {
+  const { year, quarter, week, month, day, minute, meridiem } = fields;
+  let { hour } = fields;
+  if ((quarter !== undefined || week !== undefined) && (month !== undefined || day !== undefined || hour !== undefined)) return undefined;
+  if (quarter !== undefined && week !== undefined) return undefined;
+
+  if (hour !== undefined && meridiem !== undefined) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+
+  let key: DateKey | undefined;
+  if (week !== undefined) {
+    key = toWeekKey(year ?? parseWeekKey(getCurrentDateKey('week', options)).year, week);
+  } else if (quarter !== undefined) {
+    key = toQuarterKey(year ?? getCurrentYear(options), quarter);
+  } else if (day !== undefined || hour !== undefined) {
+    const today = parseDayKey(getCurrentDateKey('day', options));
+    const [y, m, d] = [year ?? today.year, month ?? today.month, day ?? today.day];
+    if (hour === undefined) key = toDayKey(y, m, d);
+    else key = minute === undefined ? toHourKey(y, m, d, hour) : toMinuteKey(y, m, d, hour, minute);
+  } else if (month !== undefined) {
+    key = toMonthKey(year ?? getCurrentYear(options), month);
+  } else if (year !== undefined) {
+    key = toYearKey(year);
+  }
+  return key !== undefined && isValidDateKey(key, options) ? key : undefined;
+}
+
+function getCurrentYear(options: ParseFriendlyDateOptions): number {
+  return parseDayKey(getCurrentDateKey('day', options)).year;
+}
+
+function parseRelative(text: string, vocabulary: LocaleVocabulary, options: ParseFriendlyDateOptions): ParseFriendlyDateResult | undefined {
+  let relative = vocabulary.relativePhrases.get(text);
+  if (!relative) {
+    for (const { pattern, type, sign } of vocabulary.relativePatterns) {
+      const match = pattern.exec(text);
+      if (match) {
+        relative = { type, offset: sign * Number(match[1]) };
+        break;
+      }
+    }
+  }
+  if (!relative) return undefined;
+  const key = addToDateKey(getCurrentDateKey(relative.type, options), relative.offset, options);
+  return { key, type: relative.type };
+}
+
+function parseSide(text: string, vocabulary: LocaleVocabulary, options: ParseFriendlyDateOptions): DateKey | DateFields | undefined {
+  const candidate = text.trim().toUpperCase();
+  if (isValidDateKey(candidate, options)) return candidate;
+  return tokenize(text, vocabulary, getCurrentYear(options));
+}
+
+/**
+ * Parses a date typed by a person, or written by `formatFriendlyDate`, into date keys.
+ *
+ * Recognizes:
+ * - Relative phrases, as written by `Intl.RelativeTimeFormat` (e.g. "yesterday", "last month", "in 3 weeks")
+ * - Years, quarters, and weeks (e.g. "2024", "Q3 2023", "week 12", "W12 2024")
+ * - Months and days with month names or numeric dates (e.g. "Jan 2024", "January 15, 2024", "1/15/24")
+ * - Times of day (e.g. "January 15, 2024, 1:45 PM")
+ * - Ranges of any of these, joined by a dash, as formatted by `formatFriendlyDate`
+ *   (e.g. "January 14 – 20, 2024", "January – March 2024", "Q1 – Q3 2024")
+ * - Date keys (e.g. "2024-01-15")
+ *
+ * Periods left out of the input are taken from the current date, so "June" is June of
+ * the current year, and a bare number such as "15" is a day of the current month. A day
+ * range made of whole weeks is returned as a week key, or as a range of week keys when
+ * it spans several, as `formatFriendlyDate` writes weeks as day ranges. Fiscal and retail
+ * labels are not recognized, as they depend on a calendar definition.
+ *
+ * @param input - The text to parse
+ * @param options - Optional locale, reference date, time zone, and week numbering options
+ * @returns The most specific date key or range matching the input, with its resolution,
+ *   or undefined if the input isn't recognized
+ *
+ * @example
+ * // Assuming today is June 17, 2026
+ * parseFriendlyDate('yesterday');              // { key: "2026-06-16", type: "day" }
+ * parseFriendlyDate('last month');             // { key: "2026-05", type: "month" }
+ * parseFriendlyDate('Q3 2023');                // { key: "2023-Q3", type: "quarter" }
+ * parseFriendlyDate('week 12');                // { key: "2026-W12", type: "week" }
+ * parseFriendlyDate('Jan 2024');               // { key: "2024-01", type: "month" }
+ * parseFriendlyDate('January 14 – 20, 2024');  // { key: "2024-W03", type: "week" }
+ * parseFriendlyDate('January – March 2024');   // { key: { start: "2024-01", end: "2024-03" }, type: "month" }
+ * parseFriendlyDate('15. Juni 2024', { locale: 'de-DE' });  // { key: "2024-06-15", type: "day" }
+ */
+export function parseFriendlyDate(input: string, options: ParseFriendlyDateOptions = {}): ParseFriendlyDateResult | undefined {
+  const vocabulary = getVocabulary(options.locale);
+  const text = normalizeSpaces(input)
+    .toLowerCase()
+    .replace(/\b([ap])\.\s?m\./g, '$1m');
+  if (!text) return undefined;
+
+  const relative = parseRelative(text, vocabulary, options);
+  if (relative) return relative;
+
+  const sides = text.split(/\s*[–—]\s*|\s+-\s+|\s+to\s+/);
+  if (sides.length > 2) return undefined;
+  const parsed = sides.map((side) => parseSide(side, vocabulary, options));
+  if (parsed.some((side) => side === undefined)) return undefined;
+
+  const fields = parsed.filter((side): side is DateFields => typeof side === 'object');
+  const timeContext = fields.some(hasTime);
+  if (!fields.every((side) => placeNumbers(side, timeContext))) return undefined;
+  const [startSide, endSide = startSide] = parsed as (DateKey | DateFields)[];
+  const inheritsYear = sides.length === 2 && typeof startSide === 'object' && typeof endSide === 'object' && fillRange(startSide, endSide);
+
+  let start = typeof startSide === 'string' ? startSide : toDateKey(startSide, options);
+  const end = typeof endSide === 'string' ? endSide : toDateKey(endSide, options);
+  if (start === undefined || end === undefined) return undefined;
+  // A range such as "Q4 – Q1 2025" starts in the year before the one it ends in
+  if (inheritsYear && typeof startSide === 'object' && compareDateKeys(start, end, options) > 0) {
+    startSide.year! -= 1;
+    start = toDateKey(startSide, options);
+    if (start === undefined) return undefined;
+  }
+
+  const type = RESOLUTIONS.find((resolution) => resolution === getDateKeyType(start!) || resolution === getDateKeyType(end))!;
+  if (start === end) return { key: start, type };
+
+  // formatFriendlyDate writes weeks as the range of their days
+  if (getDateKeyType(start) === 'day' && getDateKeyType(end) === 'day') {
+    const startWeek = convertDateKey(start, 'week', options);
+    const endWeek = convertDateKey(end, 'week', options);
+    if (convertDateKey(startWeek, 'day', options) === start && convertDateKey(addToDateKey(end, 1, options), 'week', options) !== endWeek) {
+      return { key: startWeek === endWeek ? startWeek : { start: startWeek, end: endWeek }, type: 'week' };
+    }
+  }
+  return { key: { start, end }, type };
+}
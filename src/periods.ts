@@ -0,0 +1,127 @@
+import type { DateKey, DateKeyOptions, DateKeyRange, DateKeyType, DayKey, HourKey, MinuteKey, MonthKey, QuarterKey, WeekKey, WeekOptions, YearKey } from './types';
+import { convertDateKey, getDateKeyStartFields, getDateKeyType, parseDateKey } from './converters';
+import { addToDateKey } from './arithmetic';
+import { eachDateKey } from './iteration';
+import { dateKeyToOrdinal } from './ordinals';
+import { fromZonedWallClock } from './zones';
+
+const RESOLUTIONS: DateKeyType[] = ['minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+function isFinerResolution(type: DateKeyType, than: DateKeyType): boolean {
+  return RESOLUTIONS.indexOf(type) < RESOLUTIONS.indexOf(than);
+}
+
+/**
+ * Gets the time span covered by a date key.
+ * 
+ * With a `timeZone`, the interval holds the instants at which the period starts and ends
+ * in that zone, accounting for DST transitions (e.g. a 23-hour day). An hour or minute
+ * key skipped by a transition has a zero-length interval at the moment of the transition.
+ * 
+ * @param dateKey - The date key to get the interval of
+ * @param options - Optional time zone, and week numbering options for week keys
+ * @returns The first and last moments (inclusive) of the period, in local time or the given time zone
+ * 
+ * @example
+ * getDateKeyInterval('2024-01-15T13');
+ * // { start: Jan 15, 2024 13:00:00.000, end: Jan 15, 2024 13:59:59.999 }
+ * getDateKeyInterval('2024-02');
+ * // { start: Feb 1, 2024 00:00:00.000, end: Feb 29, 2024 23:59:59.999 }
+ * getDateKeyInterval('2024-W01');
+ * // { start: Dec 31, 2023 00:00:00.000, end: Jan 6, 2024 23:59:59.999 }
+ * getDateKeyInterval('2024-03-10', { timeZone: 'America/New_York' });
+ * // { start: 2024-03-10T05:00:00.000Z, end: 2024-03-11T03:59:59.999Z }
+ */
+export function getDateKeyInterval(dateKey: DateKey, options?: DateKeyOptions): { start: Date; end: Date } {
+  const start = parseDateKey(dateKey, options);
+  const nextKey = addToDateKey(dateKey, 1, options);
+  const { timeZone } = options ?? {};
+  if (timeZone && !isNaN(start.getTime())) {
+    // The wall-clock fields come from the keys, as a local Date would shift those in the host's DST gaps
+    const toInstant = (key: DateKey) => fromZonedWallClock(getDateKeyStartFields(key, options), timeZone);
+    return toInterval(toInstant(dateKey), toInstant(nextKey));
+  }
+  return toInterval(start, parseDateKey(nextKey, options));
+}
+
+/**
+ * Builds an inclusive interval ending just before the next period, which starts at the
+ * same instant as a period skipped by a DST transition.
+ */
+function toInterval(start: Date, next: Date): { start: Date; end: Date } {
+  return { start, end: new Date(Math.max(start.getTime(), next.getTime() - 1)) };
+}
+
+/**
+ * Lists the keys of a finer resolution that make up a date key's period.
+ * 
+ * Week children include every week that overlaps the period, so the first and last
+ * weeks of a month or year may extend beyond it.
+ * 
+ * @param dateKey - The parent date key
+ * @param type - The resolution of the child keys, which must be finer than the parent's
+ * @param options - Optional week numbering options, used for week keys
+ * @returns The child keys in chronological order
+ * @throws If the child resolution is not finer than the parent's
+ * 
+ * @example
+ * getChildKeys('2024-01-15', 'hour');  // ["2024-01-15T00", "2024-01-15T01", ..., "2024-01-15T23"]
+ * getChildKeys('2024-W01', 'day');    // ["2023-12-31", "2024-01-01", ..., "2024-01-06"]
+ * getChildKeys('2024-Q2', 'month');   // ["2024-04", "2024-05", "2024-06"]
+ * getChildKeys('2024', 'quarter');    // ["2024-Q1", "2024-Q2", "2024-Q3", "2024-Q4"]
+ */
+export function getChildKeys(dateKey: DateKey, type: 'minute', options?: WeekOptions): MinuteKey[];
+export function getChildKeys(dateKey: DateKey, type: 'hour', options?: WeekOptions): HourKey[];
+export function getChildKeys(dateKey: DateKey, type: 'day', options?: WeekOptions): DayKey[];
+export function getChildKeys(dateKey: DateKey, type: 'week', options?: WeekOptions): WeekKey[];
+export function getChildKeys(dateKey: DateKey, type: 'month', options?: WeekOptions): MonthKey[];
+export function getChildKeys(dateKey: DateKey, type: 'quarter', options?: WeekOptions): QuarterKey[];
+export function getChildKeys(dateKey: DateKey, type: DateKeyType, options?: WeekOptions): DateKey[];
+export function getChildKeys(dateKey: DateKey, type: DateKeyType, options?: WeekOptions): DateKey[] {
+  if (!isFinerResolution(type, getDateKeyType(dateKey))) {
+    throw new Error(`Cannot get ${type} children of ${dateKey}`);
+  }
+  return eachDateKey(dateKey, dateKey, { ...options, type });
+}
+
+/**
+ * Gets the key of a coarser resolution that contains a date key.
+ * 
+ * Week keys belong to the month, quarter, and year of the day they start on.
+ * 
+ * @param dateKey - The child date key
+ * @param type - The resolution of the parent key, which must be coarser than the child's
+ * @param options - Optional week numbering options, used for week keys
+ * @returns The parent date key
+ * @throws If the parent resolution is not coarser than the child's
+ * 
+ * @example
+ * getParentKey('2024-01-15T13', 'day');  // "2024-01-15"
+ * getParentKey('2024-01-15', 'week');   // "2024-W03"
+ * getParentKey('2024-05', 'quarter');   // "2024-Q2"
+ * getParentKey('2024-W01', 'year');     // "2023" (the week starts on Dec 31, 2023)
+ */
+export function getParentKey(dateKey: DateKey, type: 'hour', options?: WeekOptions): HourKey;
+export function getParentKey(dateKey: DateKey, type: 'day', options?: WeekOptions): DayKey;
+export function getParentKey(dateKey: DateKey, type: 'week', options?: WeekOptions): WeekKey;
+export function getParentKey(dateKey: DateKey, type: 'month', options?: WeekOptions): MonthKey;
+export function getParentKey(dateKey: DateKey, type: 'quarter', options?: WeekOptions): QuarterKey;
+export function getParentKey(dateKey: DateKey, type: 'year', options?: WeekOptions): YearKey;
+export function getParentKey(dateKey: DateKey, type: DateKeyType, options?: WeekOptions): DateKey;
+export function getParentKey(dateKey: DateKey, type: DateKeyType, options?: WeekOptions): DateKey {
+  if (!isFinerResolution(getDateKeyType(dateKey), type)) {
+    throw new Error(`Cannot get ${type} parent of ${dateKey}`);
+  }
+  return convertDateKey(dateKey, type, options);
+}
+
+/**
+ * Gets the first and last days (as days since 1970-01-01) covered by a date key range.
+ */
+export function getDayBounds(range: DateKeyRange, options?: WeekOptions): { first: number; last: number } {
+  const first = dateKeyToOrdinal(convertDateKey(range.start, 'day', options));
+  const lastMinute = addToDateKey(convertDateKey(addToDateKey(range.end, 1, options), 'minute', options), -1);
+  const last = dateKeyToOrdinal(convertDateKey(lastMinute, 'day'));
+  return { first, last };
+}
+
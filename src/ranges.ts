@@ -0,0 +1,191 @@
+import type { DateKey, DateKeyRange, WeekOptions } from './types';
+import { convertDateKey } from './converters';
+import { addToDateKey, subtractFromDateKey } from './arithmetic';
+import { dateKeyToOrdinal } from './ordinals';
+
+/**
+ * A range along with the wall-clock minutes it covers, from `from` (inclusive) to `to` (exclusive).
+ */
+interface Span extends DateKeyRange {
+  from: number;
+  to: number;
+}
+
+function toSpan(range: DateKeyRange, options?: WeekOptions): Span {
+  const from = dateKeyToOrdinal(convertDateKey(range.start, 'minute', options));
+  const to = dateKeyToOrdinal(convertDateKey(addToDateKey(range.end, 1, options), 'minute', options));
+  if (to <= from) {
+    throw new Error(`Invalid DateKeyRange: ${range.start} is after ${range.end}`);
+  }
+  return { start: range.start, end: range.end, from, to };
+}
+
+function toRange(key: DateKey | DateKeyRange): DateKeyRange {
+  return typeof key === 'string' ? { start: key, end: key } : key;
+}
+
+/**
+ * Sorts spans and merges the ones that overlap or touch.
+ */
+function mergeSpans(spans: Span[]): Span[] {
+  const sorted = [...spans].sort((a, b) => a.from - b.from || a.to - b.to);
+  const merged: Span[] = [];
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.from <= last.to) {
+      if (span.to > last.to) {
+        merged[merged.length - 1] = { ...last, end: span.end, to: span.to };
+      }
+    } else {
+      merged.push(span);
+    }
+  }
+  return merged;
+}
+
+const toRanges = (spans: Span[]): DateKeyRange[] => spans.map(({ start, end }) => ({ start, end }));
+
+/**
+ * Checks if two date key ranges share any moment in time.
+ *
+ * Ranges are compared by the time they span, so keys of different resolutions can be
+ * compared (a month key covers every day of the month).
+ *
+ * @param a - The first range
+ * @param b - The second range
+ * @param options - Optional week numbering options, used for week keys
+ * @returns True if the ranges overlap
+ * @throws If a range starts after it ends
+ *
+ * @example
+ * dateKeyRangesOverlap({ start: '2024-01', end: '2024-03' }, { start: '2024-03-31', end: '2024-04-15' });  // true
+ * dateKeyRangesOverlap({ start: '2024-01', end: '2024-03' }, { start: '2024-04-01', end: '2024-04-15' });  // false
+ */
+export function dateKeyRangesOverlap(a: DateKeyRange, b: DateKeyRange, options?: WeekOptions): boolean {
+  const spanA = toSpan(a, options);
+  const spanB = toSpan(b, options);
+  return spanA.from < spanB.to && spanB.from < spanA.to;
+}
+
+/**
+ * Checks if a date key range fully contains a date key or another range.
+ *
+ * @param range - The containing range
+ * @param keyOrRange - The date key or range to look for
+ * @param options - Optional week numbering options, used for week keys
+ * @returns True if every moment of `keyOrRange` is within `range`
+ * @throws If a range starts after it ends
+ *
+ * @example
+ * dateKeyRangeContains({ start: '2024-01', end: '2024-03' }, '2024-02-15');  // true
+ * dateKeyRangeContains({ start: '2024-01', end: '2024-03' }, '2024-W14');    // false (Mar 31 – Apr 6)
+ * dateKeyRangeContains({ start: '2024', end: '2024' }, { start: '2024-Q2', end: '2024-Q3' });  // true
+ */
+export function dateKeyRangeContains(range: DateKeyRange, keyOrRange: DateKey | DateKeyRange, options?: WeekOptions): boolean {
+  const outer = toSpan(range, options);
+  const inner = toSpan(toRange(keyOrRange), options);
+  return outer.from <= inner.from && inner.to <= outer.to;
+}
+
+/**
+ * Merges overlapping and adjacent date key ranges into the fewest ranges covering the same time.
+ *
+ * Each merged range keeps the keys that bound it, so its resolution may be mixed.
+ *
+ * @param ranges - The ranges to merge
+ * @param options - Optional week numbering options, used for week keys
+ * @returns Non-overlapping, non-adjacent ranges in chronological order
+ * @throws If a range starts after it ends
+ *
+ * @example
+ * normalizeDateKeyRanges([
+ *   { start: '2024-03', end: '2024-03' },
+ *   { start: '2024-01-01', end: '2024-02-29' },
+ *   { start: '2024-06', end: '2024-06' },
+ * ]);
+ * // [{ start: '2024-01-01', end: '2024-03' }, { start: '2024-06', end: '2024-06' }]
+ */
+export function normalizeDateKeyRanges(ranges: DateKeyRange[], options?: WeekOptions): DateKeyRange[] {
+  return toRanges(mergeSpans(ranges.map((range) => toSpan(range, options))));
+}
+
+/**
+ * Combines two sets of date key ranges into the ranges covering time in either set.
+ *
+ * @param a - The first set of ranges
+ * @param b - The second set of ranges
+ * @param options - Optional week numbering options, used for week keys
+ * @returns Normalized ranges in chronological order
+ * @throws If a range starts after it ends
+ *
+ * @example
+ * unionDateKeyRanges([{ start: '2024-01', end: '2024-02' }], [{ start: '2024-02-15', end: '2024-03-10' }]);
+ * // [{ start: '2024-01', end: '2024-03-10' }]
+ */
+export function unionDateKeyRanges(a: DateKeyRange[], b: DateKeyRange[], options?: WeekOptions): DateKeyRange[] {
+  return normalizeDateKeyRanges([...a, ...b], options);
+}
+
+/**
+ * Finds the ranges covering time that is in both sets of date key ranges.
+ *
+ * @param a - The first set of ranges
+ * @param b - The second set of ranges
+ * @param options - Optional week numbering options, used for week keys
+ * @returns Normalized ranges in chronological order, empty if the sets don't overlap
+ * @throws If a range starts after it ends
+ *
+ * @example
+ * intersectDateKeyRanges([{ start: '2024-01', end: '2024-03' }], [{ start: '2024-02-15', end: '2024-06-30' }]);
+ * // [{ start: '2024-02-15', end: '2024-03' }]
+ */
+export function intersectDateKeyRanges(a: DateKeyRange[], b: DateKeyRange[], options?: WeekOptions): DateKeyRange[] {
+  const spansA = mergeSpans(a.map((range) => toSpan(range, options)));
+  const spansB = mergeSpans(b.map((range) => toSpan(range, options)));
+  const result: Span[] = [];
+  for (const spanA of spansA) {
+    for (const spanB of spansB) {
+      if (spanA.from < spanB.to && spanB.from < spanA.to) {
+        const [start, from] = spanA.from >= spanB.from ? [spanA.start, spanA.from] : [spanB.start, spanB.from];
+        const [end, to] = spanA.to <= spanB.to ? [spanA.end, spanA.to] : [spanB.end, spanB.to];
+        result.push({ start, end, from, to });
+      }
+    }
+  }
+  return toRanges(mergeSpans(result));
+}
+
+/**
+ * Removes the time covered by one set of date key ranges from another.
+ *
+ * Where a range is cut, the new bounds are the periods just before and after the removed
+ * range, at the removed range's resolution.
+ *
+ * @param a - The ranges to subtract from
+ * @param b - The ranges to remove
+ * @param options - Optional week numbering options, used for week keys
+ * @returns Normalized ranges in chronological order
+ * @throws If a range starts after it ends
+ *
+ * @example
+ * subtractDateKeyRanges([{ start: '2024', end: '2024' }], [{ start: '2024-03', end: '2024-05' }]);
+ * // [{ start: '2024', end: '2024-02' }, { start: '2024-06', end: '2024' }]
+ */
+export function subtractDateKeyRanges(a: DateKeyRange[], b: DateKeyRange[], options?: WeekOptions): DateKeyRange[] {
+  const removed = mergeSpans(b.map((range) => toSpan(range, options)));
+  let remaining = mergeSpans(a.map((range) => toSpan(range, options)));
+  for (const cut of removed) {
+    remaining = remaining.flatMap((span) => {
+      if (cut.to <= span.from || span.to <= cut.from) return [span];
+      const pieces: Span[] = [];
+      if (span.from < cut.from) {
+        pieces.push({ start: span.start, end: subtractFromDateKey(cut.start, 1, options), from: span.from, to: cut.from });
+      }
+      if (cut.to < span.to) {
+        pieces.push({ start: addToDateKey(cut.end, 1, options), end: span.end, from: cut.to, to: span.to });
+      }
+      return pieces;
+    });
+  }
+  return toRanges(remaining);
+}
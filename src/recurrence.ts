@@ -0,0 +1,348 @@
+import type { DateKey, DateKeyRange, DayKey, WeekOptions } from './types';
+import { toDayKey } from './builders';
+import { isValidDayKey } from './validation';
+import { dateKeyToOrdinal, ordinalToDateKey } from './ordinals';
+import { civilFromDays, daysFromCivil, getDaysInMonth, getWeekday, startOfWeekDays } from './calendar';
+import { getDayBounds } from './periods';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RecurrenceWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/**
+ * A BYDAY entry: a day of the week, optionally numbered within the month or year
+ * (e.g. `{ weekday: 'TU', ordinal: 2 }` for the second Tuesday, `ordinal: -1` for the last).
+ */
+export interface RecurrenceWeekdayRule {
+  weekday: RecurrenceWeekday;
+  ordinal?: number;
+}
+
+/**
+ * A recurrence rule, covering the day-level parts of an RFC 5545 RRULE.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  /**
+   * The number of periods of `freq` between occurrences.
+   *
+   * @default 1
+   */
+  interval?: number;
+  /** The days of the week, numbered within the month or year for MONTHLY and YEARLY rules */
+  byDay?: readonly RecurrenceWeekdayRule[];
+  /** The days of the month (1 to 31, or -1 for the last day to -31) */
+  byMonthDay?: readonly number[];
+  /** The months of the year (1 to 12) */
+  byMonth?: readonly number[];
+  /** The positions to keep among each period's days (e.g. -1 for the last) */
+  bySetPos?: readonly number[];
+  /** The number of occurrences, counted from the start of the recurrence */
+  count?: number;
+  /** The last day an occurrence may fall on */
+  until?: DayKey;
+  /**
+   * The day weeks start on, which groups the days of WEEKLY rules with an interval.
+   *
+   * @default 'MO'
+   */
+  weekStart?: RecurrenceWeekday;
+}
+
+const WEEKDAYS: readonly RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: readonly RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+// RRULE parts that exist in RFC 5545 but select times or week numbers, which day keys can't express
+const UNSUPPORTED_PARTS = ['BYSECOND', 'BYMINUTE', 'BYHOUR', 'BYYEARDAY', 'BYWEEKNO'];
+
+function parseInteger(part: string, value: string): number {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`Invalid RRULE ${part}: ${value}`);
+  }
+  return Number(value);
+}
+
+function parseWeekdayRule(value: string): RecurrenceWeekdayRule {
+  const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid RRULE BYDAY: ${value}`);
+  }
+  const weekday = match[2] as RecurrenceWeekday;
+  return match[1] ? { weekday, ordinal: Number(match[1]) } : { weekday };
+}
+
+function parseUntil(value: string): DayKey {
+  // Only the date of a date-time UNTIL is kept, as occurrences are whole days
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  const dayKey = match ? toDayKey(Number(match[1]), Number(match[2]), Number(match[3])) : undefined;
+  if (!dayKey || !isValidDayKey(dayKey)) {
+    throw new Error(`Invalid RRULE UNTIL: ${value}`);
+  }
+  return dayKey;
+}
+
+function assertIntegers(part: string, values: readonly number[], min: number, max: number, allowNegative: boolean): void {
+  for (const value of values) {
+    const magnitude = allowNegative ? Math.abs(value) : value;
+    if (!Number.isInteger(value) || magnitude < min || magnitude > max) {
+      throw new Error(`Invalid recurrence ${part}: ${value}`);
+    }
+  }
+}
+
+/**
+ * Checks that a rule only uses values that RFC 5545 allows.
+ */
+function validateRule(rule: RecurrenceRule): void {
+  if (!FREQUENCIES.includes(rule.freq)) {
+    throw new Error(`Invalid recurrence frequency: ${rule.freq}`);
+  }
+  if (rule.interval !== undefined) assertIntegers('interval', [rule.interval], 1, Infinity, false);
+  if (rule.count !== undefined) assertIntegers('count', [rule.count], 1, Infinity, false);
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('A recurrence rule cannot have both a count and an until date');
+  }
+  if (rule.until !== undefined && !isValidDayKey(rule.until)) {
+    throw new Error(`Invalid recurrence until date: ${rule.until}`);
+  }
+  assertIntegers('month', rule.byMonth ?? [], 1, 12, false);
+  assertIntegers('month day', rule.byMonthDay ?? [], 1, 31, true);
+  assertIntegers('set position', rule.bySetPos ?? [], 1, 366, true);
+  if (rule.bySetPos?.length && !rule.byDay?.length && !rule.byMonthDay?.length && !rule.byMonth?.length) {
+    throw new Error('A recurrence set position needs a day, month day, or month to select from');
+  }
+  for (const { weekday, ordinal } of rule.byDay ?? []) {
+    if (!WEEKDAYS.includes(weekday)) {
+      throw new Error(`Invalid recurrence weekday: ${weekday}`);
+    }
+    if (ordinal === undefined) continue;
+    if (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+      throw new Error(`Numbered weekdays are only allowed in MONTHLY and YEARLY rules: ${ordinal}${weekday}`);
+    }
+    assertIntegers('weekday number', [ordinal], 1, rule.freq === 'MONTHLY' || rule.byMonth?.length ? 5 : 53, true);
+  }
+  if (rule.weekStart !== undefined && !WEEKDAYS.includes(rule.weekStart)) {
+    throw new Error(`Invalid recurrence week start: ${rule.weekStart}`);
+  }
+}
+
+/**
+ * Parses an RFC 5545 RRULE into a recurrence rule.
+ *
+ * Supports FREQ (DAILY, WEEKLY, MONTHLY, or YEARLY), INTERVAL, BYDAY (with numbered
+ * weekdays), BYMONTHDAY, BYMONTH, BYSETPOS, COUNT, UNTIL, and WKST. The time of a
+ * date-time UNTIL is ignored.
+ *
+ * @param rrule - The rule, with or without the "RRULE:" prefix
+ * @returns The parsed recurrence rule
+ * @throws If the rule is malformed, or uses a part that selects times or week numbers
+ *
+ * @example
+ * parseRecurrenceRule('FREQ=MONTHLY;BYDAY=2TU');
+ * // { freq: 'MONTHLY', byDay: [{ weekday: 'TU', ordinal: 2 }] }
+ * parseRecurrenceRule('RRULE:FREQ=MONTHLY;INTERVAL=3;COUNT=4');
+ * // { freq: 'MONTHLY', interval: 3, count: 4 }
+ */
+export function parseRecurrenceRule(rrule: string): RecurrenceRule {
+  const body = rrule.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    if (!part.trim()) continue;
+    const [name, value, ...rest] = part.split('=');
+    const upperName = name.trim().toUpperCase();
+    if (UNSUPPORTED_PARTS.includes(upperName)) {
+      throw new Error(`Unsupported RRULE part: ${upperName}`);
+    }
+    if (value === undefined || rest.length > 0 || parts.has(upperName)) {
+      throw new Error(`Invalid RRULE part: ${part}`);
+    }
+    parts.set(upperName, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) {
+    throw new Error(`RRULE is missing FREQ: ${rrule}`);
+  }
+  const rule: RecurrenceRule = { freq: freq as RecurrenceFrequency };
+  const list = (value: string) => value.split(',');
+  for (const [name, value] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(name, value);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(name, value);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        rule.byDay = list(value).map(parseWeekdayRule);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = list(value).map((item) => parseInteger(name, item));
+        break;
+      case 'BYMONTH':
+        rule.byMonth = list(value).map((item) => parseInteger(name, item));
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = list(value).map((item) => parseInteger(name, item));
+        break;
+      case 'WKST':
+        rule.weekStart = value as RecurrenceWeekday;
+        break;
+      default:
+        throw new Error(`Invalid RRULE part: ${name}`);
+    }
+  }
+  validateRule(rule);
+  return rule;
+}
+
+/**
+ * Finds the days from `first` to `last` that match BYDAY entries, numbering weekdays
+ * within that span.
+ */
+function expandWeekdays(first: number, last: number, byDay: readonly RecurrenceWeekdayRule[]): number[] {
+  const days: number[] = [];
+  for (const { weekday, ordinal } of byDay) {
+    const firstMatch = first + ((WEEKDAYS.indexOf(weekday) - getWeekday(first) + 7) % 7);
+    const matchCount = Math.floor((last - firstMatch) / 7) + 1;
+    if (ordinal === undefined) {
+      for (let index = 0; index < matchCount; index++) days.push(firstMatch + index * 7);
+    } else {
+      const index = ordinal > 0 ? ordinal - 1 : matchCount + ordinal;
+      if (index >= 0 && index < matchCount) days.push(firstMatch + index * 7);
+    }
+  }
+  return days;
+}
+
+/**
+ * Finds the days of a month that match a MONTHLY or YEARLY rule. Without BYMONTHDAY or
+ * BYDAY, the day of the month of the start is used.
+ */
+function expandMonth(year: number, month: number, rule: RecurrenceRule, startDayOfMonth: number): number[] {
+  const first = daysFromCivil(year, month, 1);
+  const length = getDaysInMonth(year, month);
+  if (rule.byMonthDay?.length) {
+    const weekdays = rule.byDay?.length ? new Set(rule.byDay.map(({ weekday }) => WEEKDAYS.indexOf(weekday))) : undefined;
+    return rule.byMonthDay
+      .map((day) => (day > 0 ? day : length + day + 1))
+      .filter((day) => day >= 1 && day <= length)
+      .map((day) => first + day - 1)
+      .filter((day) => !weekdays || weekdays.has(getWeekday(day)));
+  }
+  if (rule.byDay?.length) {
+    return expandWeekdays(first, first + length - 1, rule.byDay);
+  }
+  return startDayOfMonth <= length ? [first + startDayOfMonth - 1] : [];
+}
+
+/**
+ * Gets the first day of a period of a rule, and the days in it that match the rule.
+ */
+function getPeriodDays(rule: RecurrenceRule, start: number, period: number): { periodStart: number; days: number[] } {
+  const interval = rule.interval ?? 1;
+  const { year: startYear, month: startMonth, day: startDayOfMonth } = civilFromDays(start);
+  const byMonth = rule.byMonth?.length ? new Set(rule.byMonth) : undefined;
+
+  switch (rule.freq) {
+    case 'YEARLY': {
+      const year = startYear + period * interval;
+      const periodStart = daysFromCivil(year, 1, 1);
+      if (rule.byDay?.length && !byMonth && !rule.byMonthDay?.length) {
+        return { periodStart, days: expandWeekdays(periodStart, daysFromCivil(year, 12, 31), rule.byDay) };
+      }
+      const months = byMonth ? [...byMonth] : rule.byMonthDay?.length ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] : [startMonth];
+      return { periodStart, days: months.flatMap((month) => expandMonth(year, month, rule, startDayOfMonth)) };
+    }
+    case 'MONTHLY': {
+      const monthIndex = startYear * 12 + startMonth - 1 + period * interval;
+      const year = Math.floor(monthIndex / 12);
+      const month = monthIndex - year * 12 + 1;
+      const periodStart = daysFromCivil(year, month, 1);
+      if (byMonth && !byMonth.has(month)) return { periodStart, days: [] };
+      return { periodStart, days: expandMonth(year, month, rule, startDayOfMonth) };
+    }
+    case 'WEEKLY': {
+      const weekStartsOn = WEEKDAYS.indexOf(rule.weekStart ?? 'MO');
+      const periodStart = startOfWeekDays(start, weekStartsOn) + period * interval * 7;
+      const weekdays = rule.byDay?.length ? rule.byDay.map(({ weekday }) => WEEKDAYS.indexOf(weekday)) : [getWeekday(start)];
+      const days = weekdays
+        .map((weekday) => periodStart + ((weekday - weekStartsOn + 7) % 7))
+        .filter((day) => !byMonth || byMonth.has(civilFromDays(day).month));
+      return { periodStart, days };
+    }
+    default: {
+      const day = start + period * interval;
+      const { year, month, day: dayOfMonth } = civilFromDays(day);
+      const length = getDaysInMonth(year, month);
+      const matches =
+        (!byMonth || byMonth.has(month)) &&
+        (!rule.byMonthDay?.length || rule.byMonthDay.some((monthDay) => monthDay === dayOfMonth || length + monthDay + 1 === dayOfMonth)) &&
+        (!rule.byDay?.length || rule.byDay.some(({ weekday }) => WEEKDAYS.indexOf(weekday) === getWeekday(day)));
+      return { periodStart: day, days: matches ? [day] : [] };
+    }
+  }
+}
+
+/**
+ * Keeps the days at the BYSETPOS positions of a period's days.
+ */
+function selectSetPositions(days: number[], bySetPos: readonly number[]): number[] {
+  return bySetPos
+    .map((position) => days[position > 0 ? position - 1 : days.length + position])
+    .filter((day): day is number => day !== undefined);
+}
+
+/**
+ * Lazily generates the days on which a recurrence rule occurs, within a window.
+ *
+ * Occurrences are counted from `start`, so a COUNT limit holds however late the window
+ * begins. `start` is only an occurrence if it matches the rule, and the rule's periods
+ * (its months, weeks, or years) are aligned to the one containing `start`.
+ *
+ * @param rule - A recurrence rule, or an RRULE string for `parseRecurrenceRule`
+ * @param start - The first day the recurrence may occur on (the DTSTART)
+ * @param window - A date key, or a range of date keys, whose days occurrences are kept from
+ * @param options - Optional week numbering options, used for week keys in the window
+ * @returns A generator of day keys in chronological order
+ * @throws If the rule is invalid
+ *
+ * @example
+ * [...iterateRecurrence('FREQ=MONTHLY;BYDAY=2TU', '2024-01-01', '2024-Q1')];
+ * // ["2024-01-09", "2024-02-13", "2024-03-12"]
+ * [...iterateRecurrence('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2024-01-01', '2024-Q1')];
+ * // ["2024-01-31", "2024-02-29", "2024-03-29"] (the last weekday of each month)
+ * [...iterateRecurrence({ freq: 'MONTHLY', interval: 3 }, '2024-01-15', '2024')];
+ * // ["2024-01-15", "2024-04-15", "2024-07-15", "2024-10-15"]
+ */
+export function* iterateRecurrence(
+  rule: RecurrenceRule | string,
+  start: DayKey,
+  window: DateKey | DateKeyRange,
+  options?: WeekOptions,
+): Generator<DayKey> {
+  const resolved = typeof rule === 'string' ? parseRecurrenceRule(rule) : rule;
+  validateRule(resolved);
+  const startDay = dateKeyToOrdinal(start);
+  const { first, last } = getDayBounds(typeof window === 'string' ? { start: window, end: window } : window, options);
+  const lastDay = Math.min(last, resolved.until ? dateKeyToOrdinal(resolved.until) : Infinity);
+
+  let occurrences = 0;
+  for (let period = 0; ; period++) {
+    const { periodStart, days } = getPeriodDays(resolved, startDay, period);
+    if (periodStart > lastDay) return;
+    const sorted = [...new Set(days)].sort((a, b) => a - b);
+    const selected = resolved.bySetPos?.length ? [...new Set(selectSetPositions(sorted, resolved.bySetPos))].sort((a, b) => a - b) : sorted;
+    for (const day of selected) {
+      if (day < startDay) continue;
+      if (day > lastDay) return;
+      if (day >= first) yield ordinalToDateKey(day, 'day');
+      occurrences++;
+      if (resolved.count !== undefined && occurrences >= resolved.count) return;
+    }
+  }
+}
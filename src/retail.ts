@@ -0,0 +1,291 @@
+import type {
+  DateKey,
+  DateKeyType,
+  DayKey,
+  HourKey,
+  MinuteKey,
+  MonthKey,
+  QuarterKey,
+  RetailCalendarOptions,
+  RetailKey,
+  RetailKeyType,
+  RetailPeriodKey,
+  RetailQuarterKey,
+  RetailYearKey,
+  TimeZoneOptions,
+  WeekKey,
+  YearKey,
+} from './types';
+import { isRetailPeriodKey, isRetailQuarterKey, isRetailYearKey } from './guards';
+import { toRetailPeriodKey, toRetailQuarterKey, toRetailYearKey } from './builders';
+import { convertDateKey, dateToDayKey, parseDateKey, resolveWeekOptions } from './converters';
+import { dateKeyToOrdinal, ordinalToDateKey } from './ordinals';
+import { civilFromDays, daysFromCivil, startOfWeekDays } from './calendar';
+import { getDateKeyInterval } from './periods';
+import { eachDateKey } from './iteration';
+import { DateKeyError } from './errors';
+
+/**
+ * Gets the first day of a retail year, as days since 1970-01-01: the start of the week nearest
+ * to February 1st, so the previous year ends on the last day of the week nearest to January 31st.
+ */
+function getRetailYearStart(year: number, options?: RetailCalendarOptions): number {
+  const february = daysFromCivil(year, 2, 1);
+  const weekStart = startOfWeekDays(february, resolveWeekOptions(options).weekStartsOn);
+  return february - weekStart > 3 ? weekStart + 7 : weekStart;
+}
+
+/**
+ * Gets the number of weeks in each of the 12 periods of a retail year.
+ */
+function getPeriodWeeks(year: number, options?: RetailCalendarOptions): number[] {
+  const pattern = (options?.retailPattern ?? '4-5-4').split('-').map(Number);
+  const periodWeeks = [...pattern, ...pattern, ...pattern, ...pattern];
+  const yearWeeks = (getRetailYearStart(year + 1, options) - getRetailYearStart(year, options)) / 7;
+  // 53-week years add the extra week to the last period
+  periodWeeks[11] += yearWeeks - 52;
+  return periodWeeks;
+}
+
+/**
+ * Finds the retail year and period that a day belongs to.
+ */
+function getRetailParts(dayKey: DayKey, options?: RetailCalendarOptions): { year: number; period: number } {
+  const days = dateKeyToOrdinal(dayKey);
+  let { year } = civilFromDays(days);
+  if (days < getRetailYearStart(year, options)) year--;
+  let week = Math.floor((days - getRetailYearStart(year, options)) / 7);
+  const periodWeeks = getPeriodWeeks(year, options);
+  let period = 0;
+  while (week >= periodWeeks[period]) {
+    week -= periodWeeks[period];
+    period++;
+  }
+  return { year, period: period + 1 };
+}
+
+/**
+ * Gets the first and last days of a retail key's period.
+ */
+function getRetailDayRange(retailKey: RetailKey, options?: RetailCalendarOptions): { start: DayKey; end: DayKey } {
+  let year: number;
+  let firstPeriod = 1;
+  let lastPeriod = 12;
+  if (isRetailPeriodKey(retailKey)) {
+    ({ year, period: firstPeriod } = parseRetailPeriodKey(retailKey));
+    lastPeriod = firstPeriod;
+  } else if (isRetailQuarterKey(retailKey)) {
+    const parts = parseRetailQuarterKey(retailKey);
+    year = parts.year;
+    firstPeriod = (parts.quarter - 1) * 3 + 1;
+    lastPeriod = firstPeriod + 2;
+  } else if (isRetailYearKey(retailKey)) {
+    year = parseRetailYearKey(retailKey);
+  } else {
+    throw new DateKeyError('INVALID_FORMAT', `Invalid RetailKey: ${retailKey}`, retailKey);
+  }
+
+  const periodWeeks = getPeriodWeeks(year, options);
+  const weeksBefore = periodWeeks.slice(0, firstPeriod - 1).reduce((sum, weeks) => sum + weeks, 0);
+  const weeks = periodWeeks.slice(firstPeriod - 1, lastPeriod).reduce((sum, weeks) => sum + weeks, 0);
+  const start = getRetailYearStart(year, options) + weeksBefore * 7;
+  return { start: ordinalToDateKey(start, 'day'), end: ordinalToDateKey(start + weeks * 7 - 1, 'day') };
+}
+
+function toRetailKey(dayKey: DayKey, type: RetailKeyType, options?: RetailCalendarOptions): RetailKey {
+  const { year, period } = getRetailParts(dayKey, options);
+  switch (type) {
+    case 'retailPeriod':
+      return toRetailPeriodKey(year, period);
+    case 'retailQuarter':
+      return toRetailQuarterKey(year, Math.ceil(period / 3));
+    case 'retailYear':
+      return toRetailYearKey(year);
+  }
+}
+
+/**
+ * Converts a Date object to a RetailPeriodKey.
+ *
+ * Retail years start on the first day of the week nearest to February 1st (the NRF
+ * calendar), and are named after the calendar year they start in.
+ *
+ * @param date - The date to convert
+ * @param options - Optional retail pattern, week start, and time zone to read the date in
+ * @returns A RetailPeriodKey in format "RYYYY-Ppp" (e.g., "R2024-P03")
+ *
+ * @example
+ * dateToRetailPeriodKey(new Date(2024, 1, 4));   // "R2024-P01" (the retail year starts Sunday, Feb 4)
+ * dateToRetailPeriodKey(new Date(2024, 1, 3));   // "R2023-P12"
+ * dateToRetailPeriodKey(new Date(2024, 4, 5));   // "R2024-P04"
+ */
+export function dateToRetailPeriodKey(date: Date, options?: RetailCalendarOptions & TimeZoneOptions): RetailPeriodKey {
+  return toRetailKey(dateToDayKey(date, options), 'retailPeriod', options) as RetailPeriodKey;
+}
+
+/**
+ * Converts a Date object to a RetailQuarterKey.
+ *
+ * @param date - The date to convert
+ * @param options - Optional retail pattern, week start, and time zone to read the date in
+ * @returns A RetailQuarterKey in format "RYYYY-Qq" (e.g., "R2024-Q1")
+ *
+ * @example
+ * dateToRetailQuarterKey(new Date(2024, 4, 5));  // "R2024-Q2"
+ */
+export function dateToRetailQuarterKey(date: Date, options?: RetailCalendarOptions & TimeZoneOptions): RetailQuarterKey {
+  return toRetailKey(dateToDayKey(date, options), 'retailQuarter', options) as RetailQuarterKey;
+}
+
+/**
+ * Converts a Date object to a RetailYearKey.
+ *
+ * @param date - The date to convert
+ * @param options - Optional week start and time zone to read the date in
+ * @returns A RetailYearKey in format "RYYYY" (e.g., "R2024")
+ *
+ * @example
+ * dateToRetailYearKey(new Date(2024, 0, 15));  // "R2023"
+ */
+export function dateToRetailYearKey(date: Date, options?: RetailCalendarOptions & TimeZoneOptions): RetailYearKey {
+  return toRetailKey(dateToDayKey(date, options), 'retailYear', options) as RetailYearKey;
+}
+
+/**
+ * Parses a RetailPeriodKey into its component parts.
+ *
+ * @param retailPeriodKey - The retail period key to parse
+ * @returns Object with retail year and period (1-12) components
+ *
+ * @example
+ * parseRetailPeriodKey('R2024-P03');  // { year: 2024, period: 3 }
+ */
+export function parseRetailPeriodKey(retailPeriodKey: RetailPeriodKey): { year: number; period: number } {
+  const [yearStr, periodStr] = retailPeriodKey.slice(1).split('-P');
+  return { year: parseInt(yearStr, 10), period: parseInt(periodStr, 10) };
+}
+
+/**
+ * Parses a RetailQuarterKey into its component parts.
+ *
+ * @param retailQuarterKey - The retail quarter key to parse
+ * @returns Object with retail year and quarter (1-4) components
+ *
+ * @example
+ * parseRetailQuarterKey('R2024-Q2');  // { year: 2024, quarter: 2 }
+ */
+export function parseRetailQuarterKey(retailQuarterKey: RetailQuarterKey): { year: number; quarter: number } {
+  const [yearStr, quarterStr] = retailQuarterKey.slice(1).split('-Q');
+  return { year: parseInt(yearStr, 10), quarter: parseInt(quarterStr, 10) };
+}
+
+/**
+ * Parses a RetailYearKey into a retail year number.
+ *
+ * @param retailYearKey - The retail year key to parse
+ * @returns The retail year as named by the key
+ *
+ * @example
+ * parseRetailYearKey('R2024');  // 2024
+ */
+export function parseRetailYearKey(retailYearKey: RetailYearKey): number {
+  return parseInt(retailYearKey.slice(1), 10);
+}
+
+/**
+ * Parses a retail key into a Date object representing the start of that retail period.
+ *
+ * @param retailKey - The retail key to parse
+ * @param options - Optional retail pattern and week start
+ * @returns A Date object representing the first day of the retail period
+ *
+ * @example
+ * parseRetailKey('R2024');      // Date object for Feb 4, 2024
+ * parseRetailKey('R2024-P02');  // Date object for Mar 3, 2024
+ */
+export function parseRetailKey(retailKey: RetailKey, options?: RetailCalendarOptions): Date {
+  return parseDateKey(getRetailDayRange(retailKey, options).start);
+}
+
+/**
+ * Converts a calendar date key to the retail period it falls in.
+ *
+ * Keys that span more than one day belong to the retail period of the day they start on,
+ * so week keys map to the period that contains the whole week.
+ *
+ * @param dateKey - The date key to convert
+ * @param targetType - The retail resolution ('retailPeriod', 'retailQuarter', or 'retailYear')
+ * @param options - Optional retail pattern and week numbering options
+ * @returns A retail key of the target type
+ *
+ * @example
+ * convertToRetailKey('2024-W10', 'retailPeriod');   // "R2024-P02"
+ * convertToRetailKey('2024-05-05', 'retailQuarter');  // "R2024-Q2"
+ * convertToRetailKey('2024-01-15', 'retailYear');   // "R2023"
+ */
+export function convertToRetailKey(dateKey: DateKey, targetType: 'retailPeriod', options?: RetailCalendarOptions): RetailPeriodKey;
+export function convertToRetailKey(dateKey: DateKey, targetType: 'retailQuarter', options?: RetailCalendarOptions): RetailQuarterKey;
+export function convertToRetailKey(dateKey: DateKey, targetType: 'retailYear', options?: RetailCalendarOptions): RetailYearKey;
+export function convertToRetailKey(dateKey: DateKey, targetType: RetailKeyType, options?: RetailCalendarOptions): RetailKey;
+export function convertToRetailKey(dateKey: DateKey, targetType: RetailKeyType, options?: RetailCalendarOptions): RetailKey {
+  return toRetailKey(convertDateKey(dateKey, 'day', options), targetType, options);
+}
+
+/**
+ * Converts a retail key to the calendar date key of the period it starts in.
+ *
+ * @param retailKey - The retail key to convert
+ * @param targetType - The calendar resolution ('minute', 'hour', 'day', 'week', 'month', 'quarter', or 'year')
+ * @param options - Optional retail pattern and week numbering options
+ * @returns A date key of the target type
+ *
+ * @example
+ * convertRetailKey('R2024-P02', 'day');   // "2024-03-03"
+ * convertRetailKey('R2024-P02', 'week');  // "2024-W10"
+ */
+export function convertRetailKey(retailKey: RetailKey, targetType: 'minute', options?: RetailCalendarOptions): MinuteKey;
+export function convertRetailKey(retailKey: RetailKey, targetType: 'hour', options?: RetailCalendarOptions): HourKey;
+export function convertRetailKey(retailKey: RetailKey, targetType: 'day', options?: RetailCalendarOptions): DayKey;
+export function convertRetailKey(retailKey: RetailKey, targetType: 'week', options?: RetailCalendarOptions): WeekKey;
+export function convertRetailKey(retailKey: RetailKey, targetType: 'month', options?: RetailCalendarOptions): MonthKey;
+export function convertRetailKey(retailKey: RetailKey, targetType: 'quarter', options?: RetailCalendarOptions): QuarterKey;
+export function convertRetailKey(retailKey: RetailKey, targetType: 'year', options?: RetailCalendarOptions): YearKey;
+export function convertRetailKey(retailKey: RetailKey, targetType: DateKeyType, options?: RetailCalendarOptions): DateKey;
+export function convertRetailKey(retailKey: RetailKey, targetType: DateKeyType, options?: RetailCalendarOptions): DateKey {
+  return convertDateKey(getRetailDayRange(retailKey, options).start, targetType, options);
+}
+
+/**
+ * Lists the weeks that make up a retail period, quarter, or year.
+ *
+ * Retail periods are made of whole weeks, so the weeks never extend beyond the period.
+ *
+ * @param retailKey - The retail key
+ * @param options - Optional retail pattern and week numbering options
+ * @returns The week keys in chronological order
+ *
+ * @example
+ * getRetailWeekKeys('R2024-P01');        // ["2024-W06", "2024-W07", "2024-W08", "2024-W09"]
+ * getRetailWeekKeys('R2023').length;     // 53
+ */
+export function getRetailWeekKeys(retailKey: RetailKey, options?: RetailCalendarOptions): WeekKey[] {
+  const { start, end } = getRetailDayRange(retailKey, options);
+  return eachDateKey(start, end, { ...options, type: 'week' });
+}
+
+/**
+ * Gets the time span covered by a retail key.
+ *
+ * @param retailKey - The retail key to get the interval of
+ * @param options - Optional retail pattern, week start, and time zone
+ * @returns The first and last moments (inclusive) of the retail period, in local time or the given time zone
+ *
+ * @example
+ * getRetailKeyInterval('R2024-P01');
+ * // { start: Feb 4, 2024 00:00:00.000, end: Mar 2, 2024 23:59:59.999 }
+ */
+export function getRetailKeyInterval(retailKey: RetailKey, options?: RetailCalendarOptions & TimeZoneOptions): { start: Date; end: Date } {
+  const { start, end } = getRetailDayRange(retailKey, options);
+  const { timeZone } = options ?? {};
+  return { start: getDateKeyInterval(start, { timeZone }).start, end: getDateKeyInterval(end, { timeZone }).end };
+}
@@ -0,0 +1,96 @@
+import type { DateKey, DateKeyType, DayKey, HourKey, MonthKey, QuarterKey, WeekKey, WeekOptions, YearKey } from './types';
+import { isWeekKey } from './guards';
+import { convertDateKey } from './converters';
+import { dateKeyToOrdinal, ordinalToDateKey } from './ordinals';
+import { getParentKey } from './periods';
+
+export interface RollupOptions extends WeekOptions {
+  /**
+   * How a week that spans two months, quarters, or years is rolled up into them.
+   *
+   * - `start`: The whole week belongs to the period of the day it starts on (default).
+   * - `majority`: The whole week belongs to the period that holds at least 4 of its 7 days.
+   * - `split`: The week's value is divided between the periods in proportion to its days in each.
+   *   Only meaningful for additive reducers such as sums.
+   *
+   * @default 'start'
+   */
+  weekPolicy?: 'start' | 'majority' | 'split';
+}
+
+const sum = (total: number, value: number) => total + value;
+
+/**
+ * Rolls up values keyed by date keys into a coarser resolution.
+ *
+ * Each value is combined into the key of the coarser period that contains it, using the
+ * reducer in the same way as `Array.prototype.reduce` without an initial value.
+ *
+ * @param record - Values keyed by date keys of a finer resolution than the target
+ * @param type - The resolution to roll up to
+ * @param reducer - Combines two values into one (defaults to summing)
+ * @param options - Optional policy for weeks that span two periods, and week numbering options
+ * @returns The combined values keyed by the coarser date keys, in chronological order
+ * @throws If a key's resolution is not finer than the target resolution
+ *
+ * @example
+ * rollupDateKeyed({ '2024-01-30': 5, '2024-01-31': 3, '2024-02-01': 2 }, 'month');
+ * // { "2024-01": 8, "2024-02": 2 }
+ * rollupDateKeyed(dailyTemperatures, 'week', Math.max);
+ * // { "2024-W01": 12.5, "2024-W02": 9.1, ... }
+ * rollupDateKeyed({ '2024-W05': 70 }, 'month', undefined, { weekPolicy: 'split' });
+ * // { "2024-01": 40, "2024-02": 30 } (Jan 28 – Feb 3: 4 days in January, 3 in February)
+ */
+export function rollupDateKeyed(record: Partial<Record<DateKey, number>>, type: 'hour', reducer?: (total: number, value: number) => number, options?: RollupOptions): Partial<Record<HourKey, number>>;
+export function rollupDateKeyed(record: Partial<Record<DateKey, number>>, type: 'day', reducer?: (total: number, value: number) => number, options?: RollupOptions): Partial<Record<DayKey, number>>;
+export function rollupDateKeyed(record: Partial<Record<DateKey, number>>, type: 'week', reducer?: (total: number, value: number) => number, options?: RollupOptions): Partial<Record<WeekKey, number>>;
+export function rollupDateKeyed(record: Partial<Record<DateKey, number>>, type: 'month', reducer?: (total: number, value: number) => number, options?: RollupOptions): Partial<Record<MonthKey, number>>;
+export function rollupDateKeyed(record: Partial<Record<DateKey, number>>, type: 'quarter', reducer?: (total: number, value: number) => number, options?: RollupOptions): Partial<Record<QuarterKey, number>>;
+export function rollupDateKeyed(record: Partial<Record<DateKey, number>>, type: 'year', reducer?: (total: number, value: number) => number, options?: RollupOptions): Partial<Record<YearKey, number>>;
+export function rollupDateKeyed(record: Partial<Record<DateKey, number>>, type: DateKeyType, reducer?: (total: number, value: number) => number, options?: RollupOptions): Partial<Record<DateKey, number>>;
+export function rollupDateKeyed(
+  record: Partial<Record<DateKey, number>>,
+  type: DateKeyType,
+  reducer: (total: number, value: number) => number = sum,
+  options: RollupOptions = {},
+): Partial<Record<DateKey, number>> {
+  const { weekPolicy = 'start' } = options;
+  const totals = new Map<DateKey, number>();
+  const add = (key: DateKey, value: number) => {
+    const total = totals.get(key);
+    totals.set(key, total === undefined ? value : reducer(total, value));
+  };
+
+  for (const [key, value] of Object.entries(record) as [DateKey, number | undefined][]) {
+    if (value === undefined) continue;
+    const parent = getParentKey(key, type, options);
+    if (!isWeekKey(key) || type === 'week' || weekPolicy === 'start') {
+      add(parent, value);
+      continue;
+    }
+
+    const weekStart = dateKeyToOrdinal(convertDateKey(key, 'day', options));
+    const dayParents = Array.from({ length: 7 }, (_, day) =>
+      convertDateKey(ordinalToDateKey(weekStart + day, 'day'), type, options),
+    );
+    if (weekPolicy === 'majority') {
+      // The middle day of a week always lies in the period holding most of its days
+      add(dayParents[3], value);
+    } else {
+      const days = new Map<DateKey, number>();
+      for (const dayParent of dayParents) {
+        days.set(dayParent, (days.get(dayParent) ?? 0) + 1);
+      }
+      for (const [dayParent, count] of days) {
+        add(dayParent, (value * count) / 7);
+      }
+    }
+  }
+
+  // Keys of a single resolution sort chronologically as strings
+  const result: Partial<Record<DateKey, number>> = {};
+  for (const key of [...totals.keys()].sort()) {
+    result[key] = totals.get(key);
+  }
+  return result;
+}
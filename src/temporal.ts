@@ -0,0 +1,218 @@
+import type { DateKey, DateKeyType, DayKey, HourKey, MinuteKey, MonthKey, QuarterKey, WeekKey, WeekOptions, YearKey } from './types';
+import { isHourKey, isMinuteKey } from './guards';
+import { toDayKey, toHourKey, toMinuteKey, toMonthKey } from './builders';
+import { convertDateKey, getDateKeyType, parseDayKey, parseHourKey, parseMinuteKey } from './converters';
+import { dateKeyToOrdinal, ordinalToDateKey } from './ordinals';
+
+/**
+ * The fields of a `Temporal.PlainDate` used here.
+ */
+export interface PlainDateLike {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * The fields of a `Temporal.PlainYearMonth` used here.
+ */
+export interface PlainYearMonthLike {
+  year: number;
+  month: number;
+}
+
+/**
+ * The fields of a `Temporal.ZonedDateTime` used here. The date and time fields are the
+ * wall-clock time in the value's own time zone.
+ */
+export interface ZonedDateTimeLike {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * The parts of the `Temporal` namespace used to create Temporal objects, so native
+ * Temporal and polyfills can both be used without depending on either.
+ */
+export interface TemporalNamespace {
+  PlainDate: { from(fields: PlainDateLike): PlainDateLike };
+  PlainYearMonth: { from(fields: PlainYearMonthLike): PlainYearMonthLike };
+  ZonedDateTime: { from(fields: ZonedDateTimeLike & { timeZone: string }): ZonedDateTimeLike };
+}
+
+export interface TemporalOptions<T extends TemporalNamespace = TemporalNamespace> extends WeekOptions {
+  /**
+   * The Temporal namespace to create objects with, such as the `Temporal` export of a polyfill.
+   *
+   * @default globalThis.Temporal
+   */
+  temporal?: T;
+}
+
+type PlainDateOf<T extends TemporalNamespace> = ReturnType<T['PlainDate']['from']>;
+type PlainYearMonthOf<T extends TemporalNamespace> = ReturnType<T['PlainYearMonth']['from']>;
+type ZonedDateTimeOf<T extends TemporalNamespace> = ReturnType<T['ZonedDateTime']['from']>;
+
+function getTemporal<T extends TemporalNamespace>(options?: TemporalOptions<T>): T {
+  const temporal = options?.temporal ?? (globalThis as { Temporal?: T }).Temporal;
+  if (!temporal) {
+    throw new Error('Temporal is not available. Pass a Temporal polyfill as the `temporal` option.');
+  }
+  return temporal;
+}
+
+/**
+ * Builds a date key from wall-clock fields without going through a Date, so the host
+ * time zone never shifts the result.
+ */
+function fieldsToDateKey(fields: PlainDateLike & Partial<ZonedDateTimeLike>, type: DateKeyType, options?: WeekOptions): DateKey {
+  const { year, month, day, hour = 0, minute = 0 } = fields;
+  switch (type) {
+    case 'minute':
+      return toMinuteKey(year, month, day, hour, minute);
+    case 'hour':
+      return toHourKey(year, month, day, hour);
+    default:
+      return convertDateKey(toDayKey(year, month, day), type, options);
+  }
+}
+
+/**
+ * Gets the wall-clock fields of the first minute of a date key's period.
+ */
+function getStartFields(dateKey: DateKey, options?: WeekOptions): ZonedDateTimeLike {
+  if (isMinuteKey(dateKey)) return parseMinuteKey(dateKey);
+  if (isHourKey(dateKey)) return { ...parseHourKey(dateKey), minute: 0 };
+  return { ...parseDayKey(convertDateKey(dateKey, 'day', options)), hour: 0, minute: 0 };
+}
+
+/**
+ * Converts a `Temporal.PlainDate` (or any object with year, month, and day fields) to a date key.
+ *
+ * @param plainDate - The date to convert
+ * @param type - The resolution of the key (defaults to 'day')
+ * @param options - Optional week numbering options, used for week keys
+ * @returns A date key of the given type containing the date
+ *
+ * @example
+ * fromPlainDate(Temporal.PlainDate.from('2024-01-15'));             // "2024-01-15"
+ * fromPlainDate(Temporal.PlainDate.from('2024-01-15'), 'week');     // "2024-W03"
+ * fromPlainDate({ year: 2024, month: 5, day: 1 }, 'quarter');      // "2024-Q2"
+ */
+export function fromPlainDate(plainDate: PlainDateLike, type?: 'day', options?: WeekOptions): DayKey;
+export function fromPlainDate(plainDate: PlainDateLike, type: 'week', options?: WeekOptions): WeekKey;
+export function fromPlainDate(plainDate: PlainDateLike, type: 'month', options?: WeekOptions): MonthKey;
+export function fromPlainDate(plainDate: PlainDateLike, type: 'quarter', options?: WeekOptions): QuarterKey;
+export function fromPlainDate(plainDate: PlainDateLike, type: 'year', options?: WeekOptions): YearKey;
+export function fromPlainDate(plainDate: PlainDateLike, type: DateKeyType, options?: WeekOptions): DateKey;
+export function fromPlainDate(plainDate: PlainDateLike, type: DateKeyType = 'day', options?: WeekOptions): DateKey {
+  return fieldsToDateKey(plainDate, type, options);
+}
+
+/**
+ * Converts a `Temporal.PlainYearMonth` (or any object with year and month fields) to a MonthKey.
+ *
+ * @param plainYearMonth - The month to convert
+ * @returns A MonthKey in format "YYYY-MM"
+ *
+ * @example
+ * fromPlainYearMonth(Temporal.PlainYearMonth.from('2024-01'));  // "2024-01"
+ */
+export function fromPlainYearMonth(plainYearMonth: PlainYearMonthLike): MonthKey {
+  return toMonthKey(plainYearMonth.year, plainYearMonth.month);
+}
+
+/**
+ * Converts a `Temporal.ZonedDateTime` to the date key of its wall-clock time in its own time zone.
+ *
+ * @param zonedDateTime - The date and time to convert
+ * @param type - The resolution of the key
+ * @param options - Optional week numbering options, used for week keys
+ * @returns A date key of the given type containing the date and time
+ *
+ * @example
+ * const zoned = Temporal.ZonedDateTime.from('2024-01-15T13:45[Asia/Tokyo]');
+ * fromZonedDateTime(zoned, 'minute');  // "2024-01-15T13:45"
+ * fromZonedDateTime(zoned, 'day');     // "2024-01-15"
+ */
+export function fromZonedDateTime(zonedDateTime: ZonedDateTimeLike, type: 'minute', options?: WeekOptions): MinuteKey;
+export function fromZonedDateTime(zonedDateTime: ZonedDateTimeLike, type: 'hour', options?: WeekOptions): HourKey;
+export function fromZonedDateTime(zonedDateTime: ZonedDateTimeLike, type: 'day', options?: WeekOptions): DayKey;
+export function fromZonedDateTime(zonedDateTime: ZonedDateTimeLike, type: 'week', options?: WeekOptions): WeekKey;
+export function fromZonedDateTime(zonedDateTime: ZonedDateTimeLike, type: 'month', options?: WeekOptions): MonthKey;
+export function fromZonedDateTime(zonedDateTime: ZonedDateTimeLike, type: 'quarter', options?: WeekOptions): QuarterKey;
+export function fromZonedDateTime(zonedDateTime: ZonedDateTimeLike, type: 'year', options?: WeekOptions): YearKey;
+export function fromZonedDateTime(zonedDateTime: ZonedDateTimeLike, type: DateKeyType, options?: WeekOptions): DateKey;
+export function fromZonedDateTime(zonedDateTime: ZonedDateTimeLike, type: DateKeyType, options?: WeekOptions): DateKey {
+  return fieldsToDateKey(zonedDateTime, type, options);
+}
+
+/**
+ * Converts a date key to the `Temporal.PlainDate` of the first day of its period.
+ *
+ * @param dateKey - The date key to convert
+ * @param options - Optional Temporal namespace, and week numbering options used for week keys
+ * @returns A PlainDate created with the Temporal namespace
+ * @throws If no Temporal namespace is passed and `globalThis.Temporal` is not available
+ *
+ * @example
+ * toPlainDate('2024-01-15');  // Temporal.PlainDate 2024-01-15
+ * toPlainDate('2024-W01');    // Temporal.PlainDate 2023-12-31
+ * toPlainDate('2024-Q2', { temporal: Temporal });  // Temporal.PlainDate 2024-04-01
+ */
+export function toPlainDate<T extends TemporalNamespace = TemporalNamespace>(dateKey: DateKey, options?: TemporalOptions<T>): PlainDateOf<T> {
+  const { year, month, day } = getStartFields(dateKey, options);
+  return getTemporal(options).PlainDate.from({ year, month, day }) as PlainDateOf<T>;
+}
+
+/**
+ * Converts a date key to the `Temporal.PlainYearMonth` of the month its period starts in.
+ *
+ * @param dateKey - The date key to convert
+ * @param options - Optional Temporal namespace, and week numbering options used for week keys
+ * @returns A PlainYearMonth created with the Temporal namespace
+ * @throws If no Temporal namespace is passed and `globalThis.Temporal` is not available
+ *
+ * @example
+ * toPlainYearMonth('2024-01');   // Temporal.PlainYearMonth 2024-01
+ * toPlainYearMonth('2024-Q2');   // Temporal.PlainYearMonth 2024-04
+ * toPlainYearMonth('2024-W01');  // Temporal.PlainYearMonth 2023-12
+ */
+export function toPlainYearMonth<T extends TemporalNamespace = TemporalNamespace>(dateKey: DateKey, options?: TemporalOptions<T>): PlainYearMonthOf<T> {
+  const { year, month } = getStartFields(dateKey, options);
+  return getTemporal(options).PlainYearMonth.from({ year, month }) as PlainYearMonthOf<T>;
+}
+
+/**
+ * Gets the time span of a date key's period in a time zone, as `Temporal.ZonedDateTime`s.
+ *
+ * The key is read as wall-clock time in the time zone, so the range keeps the zone's
+ * daylight saving rules (a day may be 23 or 25 hours long). Following Temporal's
+ * conventions, the end is exclusive: it is the start of the next period.
+ *
+ * @param dateKey - The date key to get the range of
+ * @param timeZone - An IANA time zone name (e.g., "America/New_York")
+ * @param options - Optional Temporal namespace, and week numbering options used for week keys
+ * @returns The start (inclusive) and end (exclusive) of the period
+ * @throws If no Temporal namespace is passed and `globalThis.Temporal` is not available
+ *
+ * @example
+ * dateKeyToZonedRange('2024-03-10', 'America/New_York');
+ * // { start: 2024-03-10T00:00-05:00[America/New_York], end: 2024-03-11T00:00-04:00[America/New_York] }
+ */
+export function dateKeyToZonedRange<T extends TemporalNamespace = TemporalNamespace>(
+  dateKey: DateKey,
+  timeZone: string,
+  options?: TemporalOptions<T>,
+): { start: ZonedDateTimeOf<T>; end: ZonedDateTimeOf<T> } {
+  const temporal = getTemporal(options);
+  // Ordinals step through calendar periods, so the host time zone can't shift the next key
+  const next = ordinalToDateKey(dateKeyToOrdinal(dateKey, options) + 1, getDateKeyType(dateKey), options);
+  return {
+    start: temporal.ZonedDateTime.from({ ...getStartFields(dateKey, options), timeZone }) as ZonedDateTimeOf<T>,
+    end: temporal.ZonedDateTime.from({ ...getStartFields(next, options), timeZone }) as ZonedDateTimeOf<T>,
+  };
+}
@@ -1,8 +1,123 @@
 export type YearKey = `${number}`;
+export type QuarterKey = `${number}-Q${number}`;
 export type MonthKey = `${number}-${number}`;
 export type WeekKey = `${number}-W${number}`;
 export type DayKey = `${number}-${number}-${number}`;
+export type HourKey = `${number}-${number}-${number}T${number}`;
+export type MinuteKey = `${number}-${number}-${number}T${number}:${number}`;
 
-export type DateKey = YearKey | MonthKey | WeekKey | DayKey;
+export type DateKey = YearKey | QuarterKey | MonthKey | WeekKey | DayKey | HourKey | MinuteKey;
 
-export type DateKeyType = 'day' | 'week' | 'month' | 'year';
+export type DateKeyType = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * A span of time from the start of the `start` key's period to the end of the `end` key's period.
+ * The keys may be of different resolutions (e.g., from "2024-01-15" to "2024-03").
+ */
+export interface DateKeyRange {
+  start: DateKey;
+  end: DateKey;
+}
+
+export type FiscalYearKey = `FY${number}`;
+export type FiscalQuarterKey = `FY${number}-Q${number}`;
+
+export type FiscalKey = FiscalYearKey | FiscalQuarterKey;
+
+export type FiscalKeyType = 'fiscalQuarter' | 'fiscalYear';
+
+export type RetailYearKey = `R${number}`;
+export type RetailQuarterKey = `R${number}-Q${number}`;
+export type RetailPeriodKey = `R${number}-P${number}`;
+
+export type RetailKey = RetailYearKey | RetailQuarterKey | RetailPeriodKey;
+
+export type RetailKeyType = 'retailPeriod' | 'retailQuarter' | 'retailYear';
+
+export type RetailPattern = '4-4-5' | '4-5-4' | '5-4-4';
+
+export type WeekSystem = 'locale' | 'iso';
+
+export interface WeekOptions {
+  /**
+   * The week numbering system used for week keys.
+   *
+   * - `locale`: Weeks start on Sunday and week 1 is the week containing January 1st (default).
+   * - `iso`: ISO-8601 weeks start on Monday and week 1 is the week containing January 4th.
+   *
+   * @default 'locale'
+   */
+  weekSystem?: WeekSystem;
+  /**
+   * The day a week starts on (0 = Sunday, 1 = Monday, ...). Overrides the week system's default.
+   */
+  weekStartsOn?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+  /**
+   * The day of January that is always in week 1 of its week year. Overrides the week system's default.
+   */
+  firstWeekContainsDate?: 1 | 2 | 3 | 4 | 5 | 6 | 7;
+}
+
+export interface TimeZoneOptions {
+  /**
+   * The IANA time zone (e.g., "Asia/Tokyo") used to read calendar dates from instants.
+   *
+   * @default The host's local time zone
+   */
+  timeZone?: string;
+}
+
+export interface FiscalOptions {
+  /**
+   * The month the fiscal year starts in (1 = January, 10 = October, ...).
+   *
+   * @default 1
+   */
+  fiscalYearStartMonth?: 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+  /**
+   * Which calendar year a fiscal year is named after, when it spans two.
+   *
+   * - `end`: Name it after the year it ends in, so October 2024 – September 2025 is FY2025 (default).
+   * - `start`: Name it after the year it starts in, so October 2024 – September 2025 is FY2024.
+   *
+   * @default 'end'
+   */
+  fiscalYearNaming?: 'start' | 'end';
+}
+
+export interface RetailCalendarOptions extends WeekOptions {
+  /**
+   * The number of weeks in each period of a quarter. In years with 53 weeks, the extra
+   * week is added to the last period of the year.
+   *
+   * @default '4-5-4'
+   */
+  retailPattern?: RetailPattern;
+}
+
+export interface BusinessCalendarOptions extends WeekOptions {
+  /**
+   * The days of the week that are not working days (0 = Sunday, 1 = Monday, ...).
+   *
+   * @default [0, 6]
+   */
+  weekendDays?: readonly (0 | 1 | 2 | 3 | 4 | 5 | 6)[];
+  /**
+   * The holidays, as a list of day keys or a function that checks whether a day is a holiday.
+   */
+  holidays?: readonly DayKey[] | ((dayKey: DayKey) => boolean);
+  /**
+   * How holidays that fall on a weekend are observed on a working day.
+   *
+   * - `none`: Weekend holidays are not moved (default).
+   * - `nearest`: A weekend holiday moves to the nearest working day, so a Saturday holiday is
+   *   observed on Friday and a Sunday holiday on Monday.
+   * - `next`: A weekend holiday moves to the next working day that is not already a holiday,
+   *   so Christmas on Saturday and Boxing Day on Sunday are observed on Monday and Tuesday.
+   *
+   * @default 'none'
+   */
+  observedHolidays?: 'none' | 'nearest' | 'next';
+}
+
+export interface DateKeyOptions extends WeekOptions, TimeZoneOptions {}
@@ -0,0 +1,186 @@
+import type { DateKey, DateKeyType, DayKey, MonthKey, WeekKey, WeekOptions } from './types';
+import { isDayKey, isHourKey, isMinuteKey, isMonthKey, isQuarterKey, isWeekKey, isYearKey } from './guards';
+import { getDaysInMonth } from './calendar';
+import {
+  convertDateKey,
+  getDateKeyType,
+  parseDateKey,
+  parseDayKey,
+  parseHourKey,
+  parseMinuteKey,
+  parseMonthKey,
+  parseWeekKey,
+} from './converters';
+import { DateKeyError } from './errors';
+
+export type ParseDateKeyResult =
+  | { success: true; key: DateKey; type: DateKeyType; date: Date }
+  | { success: false; error: DateKeyError };
+
+function checkMonth(value: string, month: number): DateKeyError | undefined {
+  if (month < 1 || month > 12) {
+    return new DateKeyError('INVALID_MONTH', `Invalid DateKey "${value}": month ${month} is out of range (1-12)`, value);
+  }
+  return undefined;
+}
+
+function checkDay(value: string, year: number, month: number, day: number): DateKeyError | undefined {
+  const monthError = checkMonth(value, month);
+  if (monthError) return monthError;
+  const daysInMonth = getDaysInMonth(year, month);
+  if (day < 1 || day > daysInMonth) {
+    return new DateKeyError('INVALID_DAY', `Invalid DateKey "${value}": day ${day} is out of range (1-${daysInMonth})`, value);
+  }
+  return undefined;
+}
+
+function checkTime(value: string, hour: number, minute = 0): DateKeyError | undefined {
+  if (hour > 23) {
+    return new DateKeyError('INVALID_HOUR', `Invalid DateKey "${value}": hour ${hour} is out of range (0-23)`, value);
+  }
+  if (minute > 59) {
+    return new DateKeyError('INVALID_MINUTE', `Invalid DateKey "${value}": minute ${minute} is out of range (0-59)`, value);
+  }
+  return undefined;
+}
+
+/**
+ * Checks a value against the date key formats and the calendar.
+ * 
+ * @returns The reason the value is invalid, or undefined if it is a valid date key
+ */
+function validateDateKey(value: unknown, options?: WeekOptions): DateKeyError | undefined {
+  if (typeof value !== 'string') {
+    return new DateKeyError('INVALID_TYPE', `Invalid DateKey: expected a string, received ${typeof value}`, value);
+  }
+  if (isMinuteKey(value)) {
+    const { year, month, day, hour, minute } = parseMinuteKey(value);
+    return checkDay(value, year, month, day) ?? checkTime(value, hour, minute);
+  }
+  if (isHourKey(value)) {
+    const { year, month, day, hour } = parseHourKey(value);
+    return checkDay(value, year, month, day) ?? checkTime(value, hour);
+  }
+  if (isDayKey(value)) {
+    const { year, month, day } = parseDayKey(value);
+    return checkDay(value, year, month, day);
+  }
+  if (isWeekKey(value)) {
+    const { year, week } = parseWeekKey(value);
+    // Weeks past the end of the week year roll over into the next one, so they don't round-trip
+    if (week < 1 || week > 53 || convertDateKey(value, 'week', options) !== value) {
+      return new DateKeyError('INVALID_WEEK', `Invalid DateKey "${value}": week ${week} does not exist in week year ${year}`, value);
+    }
+    return undefined;
+  }
+  if (isMonthKey(value)) {
+    return checkMonth(value, parseMonthKey(value).month);
+  }
+  if (isQuarterKey(value) || isYearKey(value)) {
+    return undefined;
+  }
+  return new DateKeyError('INVALID_FORMAT', `Invalid DateKey "${value}": expected YYYY, YYYY-Qq, YYYY-MM, YYYY-Www, YYYY-MM-DD, YYYY-MM-DDTHH, or YYYY-MM-DDTHH:mm`, value);
+}
+
+/**
+ * Checks if a value is a date key that exists in the calendar.
+ * 
+ * Unlike the type guards, this rejects keys that have the right shape but name a
+ * month, day, week, hour, or minute that doesn't exist.
+ * 
+ * @param value - The value to check
+ * @param options - Optional week numbering options, used to check week numbers
+ * @returns True if the value is a valid date key
+ * 
+ * @example
+ * isValidDateKey('2024-02-29');  // true
+ * isValidDateKey('2023-02-29');  // false
+ * isValidDateKey('2024-W60');    // false
+ * isValidDateKey('2024-01-15T24');  // false
+ * isValidDateKey(20240115);      // false
+ */
+export function isValidDateKey(value: unknown, options?: WeekOptions): value is DateKey {
+  return validateDateKey(value, options) === undefined;
+}
+
+/**
+ * Checks if a value is a DayKey that exists in the calendar.
+ * 
+ * @param value - The value to check
+ * @returns True if the value is a valid DayKey
+ * 
+ * @example
+ * isValidDayKey('2024-01-15');  // true
+ * isValidDayKey('2024-13-45');  // false
+ * isValidDayKey('2024-1-5');    // false
+ */
+export function isValidDayKey(value: unknown): value is DayKey {
+  return isDayKey(value) && isValidDateKey(value);
+}
+
+/**
+ * Checks if a value is a WeekKey whose week exists in its week year.
+ * 
+ * @param value - The value to check
+ * @param options - Optional week numbering options, used to count the weeks in the week year
+ * @returns True if the value is a valid WeekKey
+ * 
+ * @example
+ * isValidWeekKey('2020-W53', { weekSystem: 'iso' });  // true
+ * isValidWeekKey('2021-W53', { weekSystem: 'iso' });  // false
+ */
+export function isValidWeekKey(value: unknown, options?: WeekOptions): value is WeekKey {
+  return isWeekKey(value) && isValidDateKey(value, options);
+}
+
+/**
+ * Checks if a value is a MonthKey with a month from 1 to 12.
+ * 
+ * @param value - The value to check
+ * @returns True if the value is a valid MonthKey
+ * 
+ * @example
+ * isValidMonthKey('2024-12');  // true
+ * isValidMonthKey('2024-13');  // false
+ */
+export function isValidMonthKey(value: unknown): value is MonthKey {
+  return isMonthKey(value) && isValidDateKey(value);
+}
+
+/**
+ * Asserts that a value is a date key that exists in the calendar.
+ * 
+ * @param value - The value to check
+ * @param options - Optional week numbering options, used to check week numbers
+ * @throws {DateKeyError} If the value is not a valid date key, with a code describing why
+ * 
+ * @example
+ * assertDateKey(payload.date);  // payload.date is a DateKey from here on
+ * assertDateKey('2024-13-45');  // throws DateKeyError with code 'INVALID_MONTH'
+ */
+export function assertDateKey(value: unknown, options?: WeekOptions): asserts value is DateKey {
+  const error = validateDateKey(value, options);
+  if (error) throw error;
+}
+
+/**
+ * Parses an untrusted value into a date key without throwing.
+ * 
+ * @param value - The value to parse
+ * @param options - Optional week numbering options, used to check and parse week keys
+ * @returns On success, the key with its type and start date; otherwise the reason it is invalid
+ * 
+ * @example
+ * tryParseDateKey('2024-W03');
+ * // { success: true, key: '2024-W03', type: 'week', date: Date for Jan 14, 2024 }
+ * tryParseDateKey('2024-02-30');
+ * // { success: false, error: DateKeyError with code 'INVALID_DAY' }
+ */
+export function tryParseDateKey(value: unknown, options?: WeekOptions): ParseDateKeyResult {
+  const error = validateDateKey(value, options);
+  if (error) {
+    return { success: false, error };
+  }
+  const key = value as DateKey;
+  return { success: true, key, type: getDateKeyType(key), date: parseDateKey(key, options) };
+}
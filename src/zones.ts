@@ -0,0 +1,102 @@
+const SECOND = 1000;
+const HOUR = 60 * 60 * SECOND;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Gets the wall-clock fields of an instant in a time zone.
+ * 
+ * The fields are read straight from `Intl`, never through a local Date, so DST
+ * transitions in the host's own time zone cannot shift them.
+ * 
+ * @param date - The instant
+ * @param timeZone - An IANA time zone name (e.g., "Asia/Tokyo")
+ * @returns The year, month (1-12), day, hour, minute, and second in the time zone
+ * 
+ * @example
+ * getZonedParts(new Date('2024-01-15T16:00:00Z'), 'Asia/Tokyo');
+ * // { year: 2024, month: 1, day: 16, hour: 1, minute: 0, second: 0 }
+ */
+export function getZonedParts(date: Date, timeZone: string) {
+  const parts = { year: 0, month: 0, day: 0, hour: 0, minute: 0, second: 0 };
+  for (const part of getZoneFormatter(timeZone).formatToParts(date)) {
+    if (part.type in parts) {
+      parts[part.type as keyof typeof parts] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Gets the offset of a time zone from UTC at an instant, in milliseconds.
+ * 
+ * @example
+ * getTimeZoneOffset(new Date('2024-01-15T00:00:00Z'), 'Asia/Kolkata');  // 19800000
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Converts a wall-clock time in a time zone to the instant it occurs.
+ * 
+ * Wall-clock times skipped by a DST transition resolve to the moment the transition
+ * happens, and repeated wall-clock times resolve to their first occurrence.
+ * 
+ * @param wallClock - The wall-clock fields, with month 1-12 and the time defaulting to midnight
+ * @param timeZone - An IANA time zone name (e.g., "America/New_York")
+ * @returns The instant the wall-clock time occurs in the time zone
+ * 
+ * @example
+ * fromZonedWallClock({ year: 2024, month: 3, day: 10 }, 'America/New_York');  // 2024-03-10T05:00:00.000Z
+ * fromZonedWallClock({ year: 2024, month: 3, day: 10, hour: 2, minute: 30 }, 'America/New_York');  // 2024-03-10T07:00:00.000Z
+ */
+export function fromZonedWallClock(
+  wallClock: { year: number; month: number; day: number; hour?: number; minute?: number },
+  timeZone: string,
+): Date {
+  const { year, month, day, hour = 0, minute = 0 } = wallClock;
+  const utcGuess = Date.UTC(year, month - 1, day, hour, minute);
+  // Offsets on either side of any transition near this wall-clock time
+  const offsetBefore = getTimeZoneOffset(new Date(utcGuess - 12 * HOUR), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(utcGuess + 12 * HOUR), timeZone);
+
+  const candidates = [utcGuess - offsetBefore, utcGuess - offsetAfter]
+    .filter((instant) => utcGuess - getTimeZoneOffset(new Date(instant), timeZone) === instant);
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates));
+  }
+  // Skipped by a DST transition: search for the transition, the first existing moment after it.
+  // Read with the later offset the wall-clock time lands before the transition, and with the earlier offset after it
+  let before = utcGuess - offsetAfter;
+  let after = utcGuess - offsetBefore;
+  while (after - before > SECOND) {
+    const middle = Math.floor((before + after) / 2 / SECOND) * SECOND;
+    if (getTimeZoneOffset(new Date(middle), timeZone) === offsetBefore) {
+      before = middle;
+    } else {
+      after = middle;
+    }
+  }
+  return new Date(after);
+}
@@ -4,5 +4,7 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    // Worker threads ignore changes to process.env.TZ, which the daylight saving tests rely on
+    pool: 'forks',
   },
 });